@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export type AuditRule = 'image-alt' | 'color-contrast' | 'heading-order' | 'form-label' | 'landmark' | 'focusable-name';
+
+export interface AuditFinding {
+    rule: AuditRule;
+    severity: 'error' | 'warning';
+    message: string;
+    // Tag, id and classes of the element, empty for findings about the whole page
+    description: string;
+    // Zero-based source line of the element, null when it has none (e.g. added by a script)
+    line: number | null;
+}
+
+export interface AuditReport {
+    uri: vscode.Uri;
+    findings: AuditFinding[];
+    // The preview that ran the audit, which alone may replace or clear the report
+    owner: unknown;
+    // Points out a finding in the preview
+    highlight(index: number): void;
+}
+
+const RULE_LABELS: { [rule in AuditRule]: string } = {
+    'image-alt': 'Images without alt text',
+    'color-contrast': 'Color contrast',
+    'heading-order': 'Heading order',
+    'form-label': 'Form labels',
+    'landmark': 'Landmarks',
+    'focusable-name': 'Focusable elements without names'
+};
+
+type AuditNode = { rule: AuditRule } | { index: number };
+
+/**
+ * Lists the findings of the last accessibility audit in the "Accessibility" view, by
+ * rule. Selecting a finding opens its source line and points it out in the preview.
+ */
+export class AccessibilityAudit implements vscode.TreeDataProvider<AuditNode>, vscode.Disposable {
+    public static readonly viewType = 'antigravity.auditView';
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    private readonly _treeView: vscode.TreeView<AuditNode>;
+    private _report: AuditReport | undefined;
+    // Nodes are kept per report so the tree view can reveal them by identity
+    private _ruleNodes = new Map<AuditRule, { rule: AuditRule }>();
+    private _findingNodes: { index: number }[] = [];
+
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor() {
+        this._treeView = vscode.window.createTreeView(AccessibilityAudit.viewType, { treeDataProvider: this });
+    }
+
+    public show(report: AuditReport) {
+        this._report = report;
+        this._ruleNodes = new Map(report.findings.map(f => [f.rule, { rule: f.rule }]));
+        this._findingNodes = report.findings.map((_, index) => ({ index: index }));
+
+        const errors = report.findings.filter(f => f.severity === 'error').length;
+        this._treeView.description = `${path.basename(report.uri.path)} · ${errors} error(s), ${report.findings.length - errors} warning(s)`;
+        this._treeView.message = report.findings.length === 0 ? 'No accessibility problems found.' : undefined;
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Removes the report, if it came from the given preview.
+     */
+    public clear(owner: unknown) {
+        if (this._report?.owner !== owner) {
+            return;
+        }
+        this._report = undefined;
+        this._ruleNodes.clear();
+        this._findingNodes = [];
+        this._treeView.description = undefined;
+        this._treeView.message = undefined;
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Opens the source line of a finding, selects it in the view and highlights it in
+     * the preview. Also used when a finding is clicked in the preview.
+     */
+    public async openFinding(index: number, owner?: unknown) {
+        const report = this._report;
+        const finding = report?.findings[index];
+        if (!report || !finding || (owner !== undefined && report.owner !== owner)) {
+            return;
+        }
+
+        report.highlight(index);
+        if (this._treeView.visible) {
+            this._treeView.reveal(this._findingNodes[index], { select: true, focus: false });
+        }
+
+        const document = await vscode.workspace.openTextDocument(report.uri);
+        const line = document.lineAt(Math.min(finding.line ?? 0, document.lineCount - 1));
+        const visibleEditor = vscode.window.visibleTextEditors.find(e => e.document === document);
+        await vscode.window.showTextDocument(document, {
+            viewColumn: visibleEditor?.viewColumn ?? vscode.ViewColumn.One,
+            selection: new vscode.Selection(line.range.start.translate(0, line.firstNonWhitespaceCharacterIndex), line.range.end),
+            preserveFocus: true
+        });
+    }
+
+    public getTreeItem(node: AuditNode): vscode.TreeItem {
+        const findings = this._report?.findings ?? [];
+        if ('rule' in node) {
+            const count = findings.filter(f => f.rule === node.rule).length;
+            const item = new vscode.TreeItem(RULE_LABELS[node.rule], vscode.TreeItemCollapsibleState.Expanded);
+            item.description = String(count);
+            return item;
+        }
+
+        const finding = findings[node.index];
+        const item = new vscode.TreeItem(finding.message, vscode.TreeItemCollapsibleState.None);
+        item.description = [finding.description, finding.line !== null ? `line ${finding.line + 1}` : ''].filter(Boolean).join(' · ');
+        item.iconPath = new vscode.ThemeIcon(finding.severity, new vscode.ThemeColor(finding.severity === 'error' ? 'problemsErrorIcon.foreground' : 'problemsWarningIcon.foreground'));
+        item.tooltip = `${finding.message}\n${item.description}`;
+        item.command = { command: 'antigravity.openAuditFinding', title: 'Open Source', arguments: [node.index] };
+        return item;
+    }
+
+    public getChildren(node?: AuditNode): AuditNode[] {
+        if (!node) {
+            return [...this._ruleNodes.values()];
+        }
+        if ('rule' in node) {
+            return this._findingNodes.filter(n => this._report?.findings[n.index].rule === node.rule);
+        }
+        return [];
+    }
+
+    public getParent(node: AuditNode): AuditNode | undefined {
+        if ('index' in node) {
+            const finding = this._report?.findings[node.index];
+            return finding ? this._ruleNodes.get(finding.rule) : undefined;
+        }
+        return undefined;
+    }
+
+    public dispose() {
+        this._treeView.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+}
@@ -0,0 +1,85 @@
+import * as crypto from 'crypto';
+import { parse } from 'parse5';
+import { SandboxProfile } from './previewTabManager';
+import { collectElements } from './htmlUtils';
+
+/**
+ * Stands in for the nonce in rendered pages. Pages are rendered once and can be shown
+ * again later (snapshots), while the nonce changes with every render of the webview, so
+ * it is swapped in when the page is shown. Random per session, so pages cannot guess it.
+ */
+export const NONCE_PLACEHOLDER = `ag-nonce-${crypto.randomBytes(8).toString('hex')}`;
+
+// What a previewed page may do inside its iframe. Pages always get an opaque origin:
+// with the webview's origin their scripts could reach into the preview through window.parent.
+export const SANDBOX_ATTRIBUTES: { [profile in SandboxProfile]: string } = {
+    'trusted': 'allow-scripts allow-forms allow-modals allow-popups',
+    // Only the preview's own scripts run (the policy blocks the page's), without forms, dialogs or popups
+    'untrusted': 'allow-scripts'
+};
+
+export interface PolicyOptions {
+    // The webview's `cspSource`, for local files
+    cspSource: string;
+    nonce: string;
+    // Whether any page shown is trusted; their scripts, network access and eval are allowed then
+    trusted: boolean;
+    // Hashes of the inline event handlers of trusted pages
+    eventHandlerHashes: string[];
+    // Origins of the preview servers, shown in iframes
+    frameSources: string[];
+}
+
+export function createNonce(): string {
+    return crypto.randomBytes(16).toString('base64');
+}
+
+/**
+ * The Content-Security-Policy of the preview webview. Pages in srcdoc iframes inherit
+ * it, so it has to allow what the most permissive page shown needs: scripts only run
+ * with the nonce, which the preview's own scripts always get and the page's scripts only
+ * when the page is trusted. Each page is held to its own profile by buildPagePolicy.
+ */
+export function buildContentSecurityPolicy(options: PolicyOptions): string {
+    const remote = options.trusted ? 'https: http:' : 'https:';
+    const scripts = options.trusted
+        ? [`'nonce-${options.nonce}'`, `'strict-dynamic'`, `'unsafe-eval'`,
+            ...(options.eventHandlerHashes.length ? [`'unsafe-hashes'`, ...options.eventHandlerHashes] : [])]
+        : [`'nonce-${options.nonce}'`];
+    const directives: [string, string[]][] = [
+        ['default-src', [`'none'`]],
+        ['script-src', scripts],
+        // Stylesheets pulled in with @import are inlined as data: URIs
+        ['style-src', [options.cspSource, `'unsafe-inline'`, 'https:', 'data:']],
+        ['img-src', [options.cspSource, remote, 'data:', 'blob:']],
+        ['media-src', [options.cspSource, remote, 'data:', 'blob:']],
+        ['font-src', [options.cspSource, 'https:', 'data:']],
+        ['frame-src', [options.cspSource, ...options.frameSources, ...(options.trusted ? ['https:'] : [])]],
+        ['connect-src', options.trusted ? [options.cspSource, 'https:', 'http:', 'ws:', 'wss:'] : [`'none'`]],
+        ['worker-src', options.trusted ? [options.cspSource, 'blob:'] : [`'none'`]]
+    ];
+    return directives.map(([name, sources]) => `${name} ${sources.join(' ')}`).join('; ');
+}
+
+/**
+ * The Content-Security-Policy of one page, put into its srcdoc. It applies on top of the
+ * inherited policy of the webview and can only narrow it, so a trusted page in one pane
+ * does not loosen an untrusted page in the other.
+ */
+export function buildPagePolicy(profile: SandboxProfile, options: Omit<PolicyOptions, 'trusted' | 'frameSources'>): string {
+    return buildContentSecurityPolicy({ ...options, trusted: profile === 'trusted', frameSources: [] });
+}
+
+/**
+ * CSP hashes of the inline event handlers (`onclick="..."`) of a page, which need
+ * `'unsafe-hashes'` and their hash to run under a nonce-based policy.
+ */
+export function getEventHandlerHashes(html: string): string[] {
+    const hashes = new Set<string>();
+    for (const element of collectElements(parse(html))) {
+        element.attrs
+            .filter(a => !a.prefix && a.name.startsWith('on') && a.value)
+            .forEach(a => hashes.add(`'sha256-${crypto.createHash('sha256').update(a.value).digest('base64')}'`));
+    }
+    return [...hashes];
+}
@@ -1,12 +1,74 @@
 import * as vscode from 'vscode';
 import { MultiTabPreviewPanel } from './multiTabPreviewPanel';
+import { PreviewConsole } from './previewConsole';
+import { HtmlValidator } from './htmlValidator';
+import { AccessibilityAudit } from './accessibilityAudit';
+import { MockBackend } from './mockBackend';
+import { TemplateRenderer } from './templateRenderer';
+import { exportStandaloneHtml } from './previewExporter';
+import { PreviewTabManager } from './previewTabManager';
+import { PreviewViewProvider } from './previewViewProvider';
+import { PreviewStatusBar } from './previewStatusBar';
+import { pickPreviewTab } from './tabSwitcher';
+import { MIME_TYPES } from './previewServer';
+import { ModuleCache } from './moduleResolver';
+import { readLocalResource } from './resourceRewriter';
+import { AntigravityPreviewApi, PreviewApi, PreviewTargets } from './previewApi';
 
-export function activate(context: vscode.ExtensionContext) {
+// Files commonly included as partials, besides HTML
+const PARTIAL_EXTENSIONS = ['.shtml', '.inc', '.njk', '.hbs', '.tpl'];
+
+export function activate(context: vscode.ExtensionContext): AntigravityPreviewApi {
     console.log('Antigravity Live Preview by Torsten Wich Heiter is now active!');
 
+    // Console output and runtime errors of previewed pages
+    const previewConsole = new PreviewConsole();
+    context.subscriptions.push(previewConsole);
+
+    // Markup problems of previewed documents
+    const validator = new HtmlValidator();
+    context.subscriptions.push(validator);
+
+    // Findings of accessibility audits, in the Accessibility view
+    const audit = new AccessibilityAudit();
+    context.subscriptions.push(audit);
+
+    // Answers for fetch() and XMLHttpRequest calls of previewed pages
+    const mocks = new MockBackend();
+    context.subscriptions.push(mocks);
+
+    // Server-side includes and template tags, expanded before pages are previewed
+    const templates = new TemplateRenderer();
+    context.subscriptions.push(templates);
+
+    // Changes on disk to the files pages are made of, for the editor panel and the preview view
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/*{${[...Object.keys(MIME_TYPES), ...PARTIAL_EXTENSIONS].join(',')}}`);
+    context.subscriptions.push(watcher);
+
+    // ES modules and package manifests read for previews, kept until they change
+    const moduleCache = new ModuleCache(readLocalResource, watcher);
+    context.subscriptions.push(moduleCache);
+
+    // Tabs of the editor panel and the preview view, restored from the last session
+    const tabManager = new PreviewTabManager(context.workspaceState);
+    context.subscriptions.push(tabManager);
+
+    // Preview view for the panel area or the secondary sidebar
+    const viewProvider = new PreviewViewProvider(context.extensionUri, tabManager, previewConsole, validator, audit, mocks, templates, moduleCache, watcher);
+    let viewRegistration = vscode.window.registerWebviewViewProvider(PreviewViewProvider.viewType, viewProvider, {
+        webviewOptions: { retainContextWhenHidden: true }
+    });
+
+    // Active tab of the preview used last
+    const statusBar = new PreviewStatusBar(tabManager);
+    context.subscriptions.push(statusBar);
+
+    // The preview the tab commands apply to: the one used last
+    const activePreview = () => tabManager.activeLocation === 'view' ? viewProvider : MultiTabPreviewPanel.currentPanel;
+
     // Main command to open preview
     let openPreviewCommand = vscode.commands.registerCommand('antigravity.openPreview', () => {
-        MultiTabPreviewPanel.createOrShow(context.extensionUri);
+        MultiTabPreviewPanel.createOrShow(context, tabManager, previewConsole, validator, audit, mocks, templates, moduleCache, watcher);
     });
 
     // Refresh Command
@@ -14,6 +76,7 @@ export function activate(context: vscode.ExtensionContext) {
         if (MultiTabPreviewPanel.currentPanel) {
             MultiTabPreviewPanel.currentPanel.refresh();
         }
+        viewProvider.refresh();
     });
 
     // Add Tab Command
@@ -21,13 +84,138 @@ export function activate(context: vscode.ExtensionContext) {
         if (MultiTabPreviewPanel.currentPanel) {
             MultiTabPreviewPanel.currentPanel.addNewTab();
         } else {
-            MultiTabPreviewPanel.createOrShow(context.extensionUri);
+            MultiTabPreviewPanel.createOrShow(context, tabManager, previewConsole, validator, audit, mocks, templates, moduleCache, watcher);
+        }
+    });
+
+    // Switch between, close and reopen the tabs of the preview used last
+    let nextTabCommand = vscode.commands.registerCommand('antigravity.nextTab', () => {
+        activePreview()?.showAdjacentTab(1);
+    });
+
+    let previousTabCommand = vscode.commands.registerCommand('antigravity.previousTab', () => {
+        activePreview()?.showAdjacentTab(-1);
+    });
+
+    let closeTabCommand = vscode.commands.registerCommand('antigravity.closeTab', () => {
+        activePreview()?.closeActiveTab();
+    });
+
+    let reopenClosedTabCommand = vscode.commands.registerCommand('antigravity.reopenClosedTab', async () => {
+        const preview = activePreview();
+        if (!await preview?.reopenClosedTab()) {
+            vscode.window.showInformationMessage(preview ? 'Antigravity: There is no closed preview tab to reopen.' : 'Antigravity: Open the preview to reopen closed tabs.');
+        }
+    });
+
+    // Preview a file from the Explorer (or the active editor) in a new tab, opening the preview if needed
+    let previewFileInNewTabCommand = vscode.commands.registerCommand('antigravity.previewFileInNewTab', async (uri?: vscode.Uri) => {
+        const fileUri = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri;
+        if (!fileUri) {
+            vscode.window.showInformationMessage('Antigravity: Select an HTML file to preview it in a new tab.');
+            return;
+        }
+        const preview = activePreview();
+        if (preview) {
+            await preview.openFileInNewTab(fileUri);
+            if (preview === viewProvider) {
+                await vscode.commands.executeCommand(`${PreviewViewProvider.viewType}.focus`);
+            } else {
+                MultiTabPreviewPanel.currentPanel?.reveal();
+            }
+        } else {
+            MultiTabPreviewPanel.createOrShow(context, tabManager, previewConsole, validator, audit, mocks, templates, moduleCache, watcher);
+            await MultiTabPreviewPanel.currentPanel?.openFileInNewTab(fileUri);
+        }
+    });
+
+    // Quick pick of all preview tabs; brings the picked one to the front
+    let showTabsCommand = vscode.commands.registerCommand('antigravity.showTabs', async () => {
+        if (tabManager.tabs.length === 0) {
+            vscode.window.showInformationMessage('Antigravity: There are no preview tabs yet.');
+            return;
+        }
+        const tab = await pickPreviewTab(tabManager);
+        if (!tab) {
+            return;
+        }
+        // Opening a preview shows its active tab
+        tabManager.setActiveTabId(tab.location, tab.id);
+        if (tab.location === 'view') {
+            await vscode.commands.executeCommand(`${PreviewViewProvider.viewType}.focus`);
+            viewProvider.showTab(tab.id);
+        } else if (MultiTabPreviewPanel.currentPanel) {
+            MultiTabPreviewPanel.currentPanel.reveal();
+            MultiTabPreviewPanel.currentPanel.showTab(tab.id);
+        } else {
+            MultiTabPreviewPanel.createOrShow(context, tabManager, previewConsole, validator, audit, mocks, templates, moduleCache, watcher);
+        }
+        tabManager.setLocationUsed(tab.location);
+    });
+
+    // Export the previewed page (or the active HTML editor) as a standalone file
+    let exportCommand = vscode.commands.registerCommand('antigravity.exportPreview', async () => {
+        if (await MultiTabPreviewPanel.currentPanel?.exportActiveTab() || await viewProvider.exportActiveTab()) {
+            return;
+        }
+        const editor = vscode.window.activeTextEditor;
+        if (editor && editor.document.languageId === 'html') {
+            await exportStandaloneHtml(editor.document.getText(), editor.document.uri, templates);
+        } else {
+            vscode.window.showInformationMessage('Antigravity: Open an HTML file in the preview to export it.');
+        }
+    });
+
+    // Audit the previewed page for accessibility problems
+    let runAuditCommand = vscode.commands.registerCommand('antigravity.runAudit', () => {
+        if (!MultiTabPreviewPanel.currentPanel?.runAudit() && !viewProvider.runAudit()) {
+            vscode.window.showInformationMessage('Antigravity: Open an HTML file in the preview to audit it. Pages from the preview server cannot be audited.');
+        }
+    });
+
+    // Selecting a finding in the Accessibility view
+    let openAuditFindingCommand = vscode.commands.registerCommand('antigravity.openAuditFinding', (index: number) => {
+        return audit.openFinding(index);
+    });
+
+    // Restore the preview tabs after a window reload
+    let serializer = vscode.window.registerWebviewPanelSerializer('antigravityPreview', {
+        async deserializeWebviewPanel(panel: vscode.WebviewPanel) {
+            MultiTabPreviewPanel.revive(panel, context, tabManager, previewConsole, validator, audit, mocks, templates, moduleCache, watcher);
         }
     });
 
     context.subscriptions.push(openPreviewCommand);
     context.subscriptions.push(refreshCommand);
     context.subscriptions.push(addTabCommand);
+    context.subscriptions.push(nextTabCommand);
+    context.subscriptions.push(previousTabCommand);
+    context.subscriptions.push(closeTabCommand);
+    context.subscriptions.push(reopenClosedTabCommand);
+    context.subscriptions.push(previewFileInNewTabCommand);
+    context.subscriptions.push(showTabsCommand);
+    context.subscriptions.push(exportCommand);
+    context.subscriptions.push(runAuditCommand);
+    context.subscriptions.push(openAuditFindingCommand);
+    context.subscriptions.push(serializer);
+    context.subscriptions.push(viewRegistration);
+
+    // API for other extensions and agents, opening the previews as needed
+    const previews: PreviewTargets = {
+        find: location => location === 'panel' ? MultiTabPreviewPanel.currentPanel
+            : tabManager.isLocationOpen('view') ? viewProvider : undefined,
+        show: async location => {
+            if (location === 'panel' && !MultiTabPreviewPanel.currentPanel) {
+                MultiTabPreviewPanel.createOrShow(context, tabManager, previewConsole, validator, audit, mocks, templates, moduleCache, watcher);
+            } else if (location === 'view' && !tabManager.isLocationOpen('view')) {
+                await vscode.commands.executeCommand(`${PreviewViewProvider.viewType}.focus`);
+            }
+            return previews.find(location);
+        }
+    };
+    const api = new PreviewApi(tabManager, previews);
+    context.subscriptions.push(api);
+    return api;
 }
 
 export function deactivate() { }
@@ -0,0 +1,49 @@
+import { DefaultTreeAdapterTypes } from 'parse5';
+
+type Element = DefaultTreeAdapterTypes.Element;
+type ParentNode = DefaultTreeAdapterTypes.ParentNode;
+
+/**
+ * All elements of a parsed document in document order, including those inside `<template>`.
+ */
+export function collectElements(node: ParentNode, elements: Element[] = []): Element[] {
+    for (const child of node.childNodes) {
+        if ('tagName' in child) {
+            elements.push(child);
+            collectElements(child.nodeName === 'template' ? (child as DefaultTreeAdapterTypes.Template).content : child, elements);
+        }
+    }
+    return elements;
+}
+
+/**
+ * Escapes text for HTML content and attribute values alike.
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Escapes a value for a double-quoted attribute, leaving everything else as written.
+ */
+export function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Inserts markup at the start of a page's head, so it comes before the page's own scripts.
+ */
+export function injectIntoHead(html: string, markup: string): string {
+    // Never insert before the doctype, that would switch the page to quirks mode
+    const anchor = /<head\b[^>]*>/i.exec(html) || /<html\b[^>]*>/i.exec(html) || /<!doctype[^>]*>/i.exec(html);
+    if (anchor) {
+        const index = anchor.index + anchor[0].length;
+        return html.slice(0, index) + markup + html.slice(index);
+    }
+    return markup + html;
+}
@@ -0,0 +1,300 @@
+import * as vscode from 'vscode';
+import { parse, DefaultTreeAdapterTypes } from 'parse5';
+import { MissingResource, ResourceRewriter } from './resourceRewriter';
+import { collectElements } from './htmlUtils';
+
+type Element = DefaultTreeAdapterTypes.Element;
+type ParentNode = DefaultTreeAdapterTypes.ParentNode;
+
+interface SourceLocation {
+    startLine: number;
+    startCol: number;
+    endLine: number;
+    endCol: number;
+}
+
+const HTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+const VOID_ELEMENTS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'];
+
+// Elements whose end tag may be left out
+const OPTIONAL_END_TAGS = ['html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'rt', 'rp', 'optgroup', 'option',
+    'colgroup', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th'];
+
+// Elements whose content is text, so tags inside them are not tags
+const RAW_TEXT_ELEMENTS = ['script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes'];
+
+const GLOBAL_ATTRIBUTES = ['accesskey', 'autocapitalize', 'autocorrect', 'autofocus', 'class', 'contenteditable', 'dir',
+    'draggable', 'enterkeyhint', 'hidden', 'id', 'inert', 'inputmode', 'is', 'itemid', 'itemprop', 'itemref', 'itemscope',
+    'itemtype', 'lang', 'nonce', 'part', 'popover', 'role', 'slot', 'spellcheck', 'style', 'tabindex', 'title', 'translate',
+    'writingsuggestions', 'xmlns', 'xml:lang', 'xml:space'];
+
+// Attributes of the HTML standard by element, on top of the global ones
+const ELEMENT_ATTRIBUTES: { [tagName: string]: string[] } = {
+    'a': ['charset', 'download', 'href', 'hreflang', 'name', 'ping', 'referrerpolicy', 'rel', 'target', 'type'],
+    'area': ['alt', 'coords', 'download', 'href', 'ping', 'referrerpolicy', 'rel', 'shape', 'target'],
+    'audio': ['autoplay', 'controls', 'crossorigin', 'loop', 'muted', 'preload', 'src'],
+    'base': ['href', 'target'],
+    'blockquote': ['cite'],
+    'body': ['background'],
+    'button': ['command', 'commandfor', 'disabled', 'form', 'formaction', 'formenctype', 'formmethod', 'formnovalidate',
+        'formtarget', 'name', 'popovertarget', 'popovertargetaction', 'type', 'value'],
+    'canvas': ['height', 'width'],
+    'col': ['span'],
+    'colgroup': ['span'],
+    'data': ['value'],
+    'del': ['cite', 'datetime'],
+    'details': ['name', 'open'],
+    'dialog': ['open'],
+    'embed': ['height', 'src', 'type', 'width'],
+    'fieldset': ['disabled', 'form', 'name'],
+    'form': ['accept-charset', 'action', 'autocomplete', 'enctype', 'method', 'name', 'novalidate', 'rel', 'target'],
+    'html': ['manifest'],
+    'iframe': ['allow', 'allowfullscreen', 'frameborder', 'height', 'loading', 'name', 'referrerpolicy', 'sandbox', 'src',
+        'srcdoc', 'width'],
+    'img': ['alt', 'crossorigin', 'decoding', 'fetchpriority', 'height', 'ismap', 'loading', 'referrerpolicy', 'sizes',
+        'src', 'srcset', 'usemap', 'width'],
+    'input': ['accept', 'alt', 'autocomplete', 'capture', 'checked', 'dirname', 'disabled', 'form', 'formaction',
+        'formenctype', 'formmethod', 'formnovalidate', 'formtarget', 'height', 'list', 'max', 'maxlength', 'min',
+        'minlength', 'multiple', 'name', 'pattern', 'placeholder', 'popovertarget', 'popovertargetaction', 'readonly',
+        'required', 'size', 'src', 'step', 'type', 'value', 'width'],
+    'ins': ['cite', 'datetime'],
+    'label': ['for'],
+    'li': ['value'],
+    'link': ['as', 'blocking', 'color', 'crossorigin', 'disabled', 'fetchpriority', 'href', 'hreflang', 'imagesizes',
+        'imagesrcset', 'integrity', 'media', 'referrerpolicy', 'rel', 'sizes', 'type'],
+    'map': ['name'],
+    'meta': ['charset', 'content', 'http-equiv', 'media', 'name', 'property'],
+    'meter': ['high', 'low', 'max', 'min', 'optimum', 'value'],
+    'object': ['data', 'form', 'height', 'name', 'type', 'width'],
+    'ol': ['reversed', 'start', 'type'],
+    'optgroup': ['disabled', 'label'],
+    'option': ['disabled', 'label', 'selected', 'value'],
+    'output': ['for', 'form', 'name'],
+    'param': ['name', 'value'],
+    'progress': ['max', 'value'],
+    'q': ['cite'],
+    'script': ['async', 'blocking', 'charset', 'crossorigin', 'defer', 'fetchpriority', 'integrity', 'language', 'nomodule',
+        'referrerpolicy', 'src', 'type'],
+    'select': ['autocomplete', 'disabled', 'form', 'multiple', 'name', 'required', 'size'],
+    'slot': ['name'],
+    'source': ['height', 'media', 'sizes', 'src', 'srcset', 'type', 'width'],
+    'style': ['blocking', 'media'],
+    'table': ['border'],
+    'td': ['colspan', 'headers', 'rowspan'],
+    'template': ['shadowrootclonable', 'shadowrootdelegatesfocus', 'shadowrootmode', 'shadowrootserializable'],
+    'textarea': ['autocomplete', 'cols', 'dirname', 'disabled', 'form', 'maxlength', 'minlength', 'name', 'placeholder',
+        'readonly', 'required', 'rows', 'wrap'],
+    'th': ['abbr', 'colspan', 'headers', 'rowspan', 'scope'],
+    'time': ['datetime'],
+    'track': ['default', 'kind', 'label', 'src', 'srclang'],
+    'video': ['autoplay', 'controls', 'crossorigin', 'height', 'loop', 'muted', 'playsinline', 'poster', 'preload', 'src',
+        'width']
+};
+
+/**
+ * Checks previewed documents for markup problems and publishes them in the Problems
+ * panel: parse errors, unclosed or misnested tags, stray end tags, duplicate ids,
+ * unknown attributes, `#anchor` links without a target and missing local resources.
+ */
+export class HtmlValidator implements vscode.Disposable {
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection('antigravity-html');
+
+    /**
+     * Validates a document and replaces its previous findings. Returns the number of findings.
+     * For a document with includes and templates expanded, `lines` maps the lines of `html`
+     * to the document's (see TemplateResult). `missing` are the local files the render of
+     * `html` did not find; they are only looked up here when it is not given.
+     */
+    public async validate(html: string, documentUri: vscode.Uri, lines?: number[], missing?: MissingResource[]): Promise<number> {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const report = (location: SourceLocation, message: string, code: string,
+            severity: vscode.DiagnosticSeverity = vscode.DiagnosticSeverity.Warning) => {
+            // Findings in a partial are shown on its include
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(lines?.[location.startLine - 1] ?? location.startLine - 1, location.startCol - 1,
+                    lines?.[location.endLine - 1] ?? location.endLine - 1, location.endCol - 1),
+                message,
+                severity
+            );
+            diagnostic.source = 'Antigravity HTML';
+            diagnostic.code = code;
+            diagnostics.push(diagnostic);
+        };
+
+        const document = parse(html, {
+            sourceCodeLocationInfo: true,
+            onParseError: error => report(error, this._describeParseError(error.code), error.code)
+        });
+        const elements = collectElements(document);
+
+        this._checkTags(html, document, elements, report);
+        this._checkAttributes(elements, report);
+        this._checkAnchors(elements, report);
+
+        // Local files the page references that do not exist
+        const htmlLines = html.split('\n');
+        for (const resource of missing ?? (await new ResourceRewriter(undefined).rewriteHtml(html, documentUri)).missing) {
+            const column = Math.max(0, htmlLines[resource.line]?.indexOf(resource.reference) ?? 0);
+            report({
+                startLine: resource.line + 1,
+                startCol: column + 1,
+                endLine: resource.line + 1,
+                endCol: column + 1 + resource.reference.length
+            }, `File not found: ${resource.reference}`, 'missing-resource');
+        }
+
+        this._diagnostics.set(documentUri, diagnostics);
+        return diagnostics.length;
+    }
+
+    /**
+     * Drops the findings of documents that are no longer previewed.
+     */
+    public retain(documentUris: vscode.Uri[]) {
+        const keep = new Set(documentUris.map(uri => uri.toString()));
+        const stale: vscode.Uri[] = [];
+        this._diagnostics.forEach(uri => {
+            if (!keep.has(uri.toString())) {
+                stale.push(uri);
+            }
+        });
+        stale.forEach(uri => this._diagnostics.delete(uri));
+    }
+
+    /**
+     * Elements without their end tag were either never closed or closed in the wrong
+     * order (the parser then closes them implicitly), and end tags that did not close
+     * any element have no matching start tag.
+     */
+    private _checkTags(html: string, document: ParentNode, elements: Element[],
+        report: (location: SourceLocation, message: string, code: string) => void) {
+        const matchedEndTags = new Set<number>();
+        for (const element of elements) {
+            const location = element.sourceCodeLocation;
+            if (location?.endTag) {
+                matchedEndTags.add(location.endTag.startOffset);
+            }
+            if (!location?.startTag || location.endTag || element.namespaceURI !== HTML_NAMESPACE
+                || VOID_ELEMENTS.includes(element.tagName) || OPTIONAL_END_TAGS.includes(element.tagName)) {
+                continue;
+            }
+            // Elements the parser created for a stray end tag (like </p>) start with it
+            if (html.startsWith('</', location.startTag.startOffset)) {
+                continue;
+            }
+            report(location.startTag, `<${element.tagName}> is not closed, or closed in the wrong order.`, 'unclosed-tag');
+        }
+
+        // End tags inside comments and raw text are just text
+        const textRanges: [number, number][] = [];
+        const collectTextRanges = (node: ParentNode) => {
+            for (const child of node.childNodes) {
+                if (child.nodeName === '#comment' && child.sourceCodeLocation) {
+                    textRanges.push([child.sourceCodeLocation.startOffset, child.sourceCodeLocation.endOffset]);
+                } else if ('tagName' in child) {
+                    const location = child.sourceCodeLocation;
+                    if (RAW_TEXT_ELEMENTS.includes(child.tagName) && location?.startTag) {
+                        textRanges.push([location.startTag.endOffset, location.endTag?.startOffset ?? html.length]);
+                    }
+                    collectTextRanges(child.nodeName === 'template' ? (child as DefaultTreeAdapterTypes.Template).content : child);
+                }
+            }
+        };
+        collectTextRanges(document);
+
+        const endTags = /<\/([a-zA-Z][^\s/>]*)[^>]*>/g;
+        let match: RegExpExecArray | null;
+        while ((match = endTags.exec(html)) !== null) {
+            const offset = match.index;
+            const tagName = match[1].toLowerCase();
+            if (matchedEndTags.has(offset) || ['html', 'head', 'body'].includes(tagName)
+                || textRanges.some(([start, end]) => offset >= start && offset < end)) {
+                continue;
+            }
+            const start = this._positionAt(html, offset);
+            const end = this._positionAt(html, offset + match[0].length);
+            report({ startLine: start.line, startCol: start.col, endLine: end.line, endCol: end.col },
+                `</${tagName}> has no matching start tag.`, 'stray-end-tag');
+        }
+    }
+
+    private _checkAttributes(elements: Element[], report: (location: SourceLocation, message: string, code: string,
+        severity?: vscode.DiagnosticSeverity) => void) {
+        const ids = new Set<string>();
+        for (const element of elements) {
+            const location = element.sourceCodeLocation;
+            if (!location?.attrs) {
+                continue;
+            }
+
+            const id = element.attrs.find(a => a.name === 'id' && !a.prefix)?.value;
+            if (id !== undefined && location.attrs['id']) {
+                if (ids.has(id)) {
+                    report(location.attrs['id'], `Duplicate id "${id}".`, 'duplicate-id');
+                }
+                ids.add(id);
+            }
+
+            // SVG, MathML and custom elements have attributes of their own
+            if (element.namespaceURI !== HTML_NAMESPACE || element.tagName.includes('-')) {
+                continue;
+            }
+            const known = ELEMENT_ATTRIBUTES[element.tagName] || [];
+            for (const attribute of element.attrs) {
+                const name = attribute.prefix ? `${attribute.prefix}:${attribute.name}` : attribute.name;
+                if (/^(data-|aria-|on)/.test(name) || GLOBAL_ATTRIBUTES.includes(name) || known.includes(name)) {
+                    continue;
+                }
+                if (location.attrs[name]) {
+                    report(location.attrs[name], `Unknown attribute "${name}" on <${element.tagName}>.`, 'unknown-attribute',
+                        vscode.DiagnosticSeverity.Information);
+                }
+            }
+        }
+    }
+
+    private _checkAnchors(elements: Element[], report: (location: SourceLocation, message: string, code: string) => void) {
+        const targets = new Set<string>();
+        for (const element of elements) {
+            for (const attribute of element.attrs) {
+                if (attribute.name === 'id' || (attribute.name === 'name' && element.tagName === 'a')) {
+                    targets.add(attribute.value);
+                }
+            }
+        }
+
+        for (const element of elements) {
+            const href = element.attrs.find(a => a.name === 'href' && !a.prefix)?.value;
+            const location = element.sourceCodeLocation?.attrs?.['href'];
+            if ((element.tagName !== 'a' && element.tagName !== 'area') || !href?.startsWith('#') || href.length < 2 || !location) {
+                continue;
+            }
+            let fragment = href.slice(1);
+            try {
+                fragment = decodeURIComponent(fragment);
+            } catch {
+                // Keep malformed escapes as written
+            }
+            // "#top" scrolls to the top of the page without a target
+            if (!targets.has(fragment) && fragment.toLowerCase() !== 'top') {
+                report(location, `No element with id "${fragment}" for link "${href}".`, 'broken-anchor');
+            }
+        }
+    }
+
+    private _describeParseError(code: string): string {
+        const text = code.replace(/-/g, ' ');
+        return `HTML parse error: ${text}.`;
+    }
+
+    private _positionAt(text: string, offset: number): { line: number; col: number } {
+        const before = text.slice(0, offset);
+        const lineStart = before.lastIndexOf('\n') + 1;
+        return { line: before.split('\n').length, col: offset - lineStart + 1 };
+    }
+
+    public dispose() {
+        this._diagnostics.dispose();
+    }
+}
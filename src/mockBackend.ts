@@ -0,0 +1,293 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { MIME_TYPES } from './previewServer';
+import { readLocalResource } from './resourceRewriter';
+
+// A route of the mock config file, as written by the user
+interface MockRouteConfig {
+    // "/api/users/*" matches the path on any host, "https://api.example.com/users" only that host.
+    // `*` stands for anything but '/', `**` for anything; with a '?' the query string is matched too.
+    url: string;
+    method?: string;
+    // File with the response body, relative to the config file
+    fixture?: string;
+    // Response body when there is no fixture; anything but a string is sent as JSON
+    body?: unknown;
+    status?: number;
+    // Milliseconds to wait before answering
+    delay?: number;
+    headers?: { [name: string]: string };
+}
+
+/**
+ * A route as sent to the previewed page, which decides by it whether to intercept a
+ * request. The extension matches the request again when answering it.
+ */
+export interface MockRoute {
+    // Regular expression for the URL, see MockRouteConfig.url
+    pattern: string;
+    // Upper case, empty for any method
+    method: string;
+    // Whether the pattern includes scheme and host, and the query string
+    full: boolean;
+    query: boolean;
+}
+
+export interface MockRequest {
+    method: string;
+    // Absolute URL, relative ones resolved against the page
+    url: string;
+    body?: string;
+}
+
+export interface MockResponse {
+    status: number;
+    headers: { [name: string]: string };
+    body: string;
+}
+
+interface MockConfig {
+    uri: vscode.Uri;
+    routes: MockRouteConfig[];
+}
+
+/**
+ * Answers fetch() and XMLHttpRequest calls of previewed pages from a config file in the
+ * workspace folder (`antigravity.mocks.file`) that maps URL patterns to JSON fixtures,
+ * status codes and delays. The config is re-read whenever it changes, in an editor or
+ * on disk, and problems with it are reported on the file.
+ */
+export class MockBackend implements vscode.Disposable {
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection('antigravity-mocks');
+    private readonly _onDidChangeRoutes = new vscode.EventEmitter<void>();
+    // Last valid config by workspace folder, undefined when there is none
+    private readonly _configs = new Map<string, Promise<MockConfig | undefined>>();
+    private _watcher: vscode.FileSystemWatcher | undefined;
+    private _disposables: vscode.Disposable[] = [];
+
+    /**
+     * Fires when a config file changed, so pages can be given the new routes.
+     */
+    public readonly onDidChangeRoutes = this._onDidChangeRoutes.event;
+
+    constructor() {
+        this._watchConfigFiles();
+
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('antigravity.mocks.file')) {
+                this._watchConfigFiles();
+                this._invalidate();
+            }
+        }, null, this._disposables);
+
+        // Unsaved edits of the config apply right away
+        vscode.workspace.onDidChangeTextDocument(e => {
+            if (this._isConfigFile(e.document.uri)) {
+                this._invalidate();
+            }
+        }, null, this._disposables);
+    }
+
+    /**
+     * The routes that apply to a page, for the page's interception script.
+     */
+    public async getRoutes(documentUri: vscode.Uri): Promise<MockRoute[]> {
+        return ((await this._getConfig(documentUri))?.routes ?? []).map(route => this._compile(route));
+    }
+
+    /**
+     * Answers an intercepted request of a page, after the route's delay. Returns
+     * undefined when no route matches (anymore), the request then goes to the network.
+     */
+    public async respond(documentUri: vscode.Uri, request: MockRequest): Promise<{ response: MockResponse; source: string } | undefined> {
+        const config = await this._getConfig(documentUri);
+        const route = config?.routes.find(r => this._matches(this._compile(r), request));
+        if (!config || !route) {
+            return undefined;
+        }
+
+        if (route.delay) {
+            await new Promise(resolve => setTimeout(resolve, route.delay));
+        }
+
+        const headers: { [name: string]: string } = { ...route.headers };
+        const contentType = Object.keys(headers).find(name => name.toLowerCase() === 'content-type');
+        let body: string;
+        let source: string;
+        if (route.fixture !== undefined) {
+            const fixtureUri = vscode.Uri.joinPath(config.uri, '..', route.fixture);
+            const content = await readLocalResource(fixtureUri);
+            if (content === undefined) {
+                return {
+                    response: { status: 500, headers: { 'Content-Type': 'text/plain; charset=utf-8' }, body: `Mock fixture not found: ${route.fixture}` },
+                    source: `missing fixture ${route.fixture}`
+                };
+            }
+            body = content;
+            source = route.fixture;
+            if (!contentType) {
+                headers['Content-Type'] = MIME_TYPES[path.posix.extname(fixtureUri.path).toLowerCase()] || 'application/json; charset=utf-8';
+            }
+        } else {
+            body = typeof route.body === 'string' ? route.body : route.body === undefined ? '' : JSON.stringify(route.body);
+            source = 'inline body';
+            if (!contentType && typeof route.body !== 'string' && route.body !== undefined) {
+                headers['Content-Type'] = 'application/json; charset=utf-8';
+            }
+        }
+        return { response: { status: route.status ?? 200, headers: headers, body: body }, source: source };
+    }
+
+    /**
+     * Whether a request is answered by a route; the same test the page runs.
+     */
+    private _matches(route: MockRoute, request: MockRequest): boolean {
+        if (route.method && route.method !== request.method.toUpperCase()) {
+            return false;
+        }
+        let url: URL;
+        try {
+            url = new URL(request.url);
+        } catch {
+            return false;
+        }
+        const target = (route.full ? url.origin : '') + url.pathname + (route.query ? url.search : '');
+        return new RegExp(route.pattern).test(target);
+    }
+
+    private _compile(route: MockRouteConfig): MockRoute {
+        const full = /^[a-z][a-z\d+.-]*:\/\//i.test(route.url);
+        const pattern = route.url
+            .split(/(\*\*|\*)/)
+            .map(part => part === '**' ? '.*' : part === '*' ? '[^/]*' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('');
+        return {
+            pattern: `^${pattern}$`,
+            method: (route.method || '').toUpperCase(),
+            full: full,
+            query: route.url.includes('?')
+        };
+    }
+
+    private _getConfig(documentUri: vscode.Uri): Promise<MockConfig | undefined> {
+        const folder = vscode.workspace.getWorkspaceFolder(documentUri);
+        if (!folder) {
+            return Promise.resolve(undefined);
+        }
+        const key = folder.uri.toString();
+        let config = this._configs.get(key);
+        if (!config) {
+            config = this._loadConfig(vscode.Uri.joinPath(folder.uri, this._configPath()), undefined);
+            this._configs.set(key, config);
+        }
+        return config;
+    }
+
+    /**
+     * Reads a config file, reporting what is wrong with it. A file that is not valid JSON
+     * (e.g. while it is being edited) keeps the previous routes.
+     */
+    private async _loadConfig(uri: vscode.Uri, previous: MockConfig | undefined): Promise<MockConfig | undefined> {
+        const text = await readLocalResource(uri);
+        this._diagnostics.delete(uri);
+        if (text === undefined) {
+            return undefined;
+        }
+
+        const problems: vscode.Diagnostic[] = [];
+        const report = (message: string, offset: number = 0) => {
+            const lines = text.slice(0, offset).split('\n');
+            const position = new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
+            const diagnostic = new vscode.Diagnostic(new vscode.Range(position, position.translate(0, 1)), message, vscode.DiagnosticSeverity.Error);
+            diagnostic.source = 'Antigravity Mocks';
+            problems.push(diagnostic);
+        };
+
+        let config: { routes?: unknown };
+        try {
+            config = JSON.parse(text);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            report(`Invalid JSON: ${message}`, Number(/position (\d+)/.exec(message)?.[1] ?? 0));
+            this._diagnostics.set(uri, problems);
+            return previous?.uri.toString() === uri.toString() ? previous : undefined;
+        }
+
+        const routes = Array.isArray(config?.routes) ? config.routes : [];
+        if (!Array.isArray(config?.routes)) {
+            report('Expected a "routes" array');
+        }
+        const valid = routes.filter((route: MockRouteConfig, index: number) => {
+            const offset = Math.max(0, text.indexOf(`"${route?.url}"`));
+            if (typeof route?.url !== 'string' || !route.url) {
+                report(`Route ${index + 1} needs a "url"`, offset);
+                return false;
+            }
+            if (route.status !== undefined && !(Number.isInteger(route.status) && route.status >= 200 && route.status <= 599)) {
+                report(`"status" of ${route.url} must be a number from 200 to 599`, offset);
+                return false;
+            }
+            if (route.delay !== undefined && !(typeof route.delay === 'number' && route.delay >= 0)) {
+                report(`"delay" of ${route.url} must be a number of milliseconds`, offset);
+                return false;
+            }
+            if (route.method !== undefined && typeof route.method !== 'string') {
+                report(`"method" of ${route.url} must be a string such as "GET"`, offset);
+                return false;
+            }
+            if (route.fixture !== undefined && (typeof route.fixture !== 'string' || !route.fixture)) {
+                report(`"fixture" of ${route.url} must be a path relative to the config file`, offset);
+                return false;
+            }
+            if (route.headers !== undefined && (typeof route.headers !== 'object' || route.headers === null || Array.isArray(route.headers)
+                || Object.values(route.headers).some(value => typeof value !== 'string'))) {
+                report(`"headers" of ${route.url} must map header names to strings`, offset);
+                return false;
+            }
+            return true;
+        });
+        this._diagnostics.set(uri, problems);
+        return { uri: uri, routes: valid };
+    }
+
+    private _configPath(): string {
+        return vscode.workspace.getConfiguration('antigravity').get<string>('mocks.file') || '.antigravity/mocks.json';
+    }
+
+    private _isConfigFile(uri: vscode.Uri): boolean {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        return !!folder && vscode.Uri.joinPath(folder.uri, this._configPath()).toString() === uri.toString();
+    }
+
+    private _watchConfigFiles() {
+        this._watcher?.dispose();
+        this._watcher = vscode.workspace.createFileSystemWatcher(`**/${this._configPath()}`);
+        const onChange = (uri: vscode.Uri) => {
+            if (this._isConfigFile(uri)) {
+                this._invalidate();
+            }
+        };
+        this._watcher.onDidChange(onChange);
+        this._watcher.onDidCreate(onChange);
+        this._watcher.onDidDelete(onChange);
+    }
+
+    private async _invalidate() {
+        const reloads = [...this._configs].map(([key, previous]) => {
+            const config = previous.then(p => this._loadConfig(vscode.Uri.joinPath(vscode.Uri.parse(key), this._configPath()), p));
+            this._configs.set(key, config);
+            return config;
+        });
+        await Promise.all(reloads);
+        this._onDidChangeRoutes.fire();
+    }
+
+    public dispose() {
+        this._watcher?.dispose();
+        this._diagnostics.dispose();
+        this._onDidChangeRoutes.dispose();
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
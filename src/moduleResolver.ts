@@ -0,0 +1,368 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parse } from 'acorn';
+
+export interface ModuleImport {
+    specifier: string;
+    // Offsets of the specifier's string literal, quotes included
+    start: number;
+    end: number;
+}
+
+export interface ImportMap {
+    imports: { [specifier: string]: string };
+    scopes: { [scope: string]: { [specifier: string]: string } };
+}
+
+type Reader = (uri: vscode.Uri) => Promise<string | undefined>;
+
+type ModuleTask = { uri: vscode.Uri } | { specifier: string; directory: vscode.Uri };
+
+export interface ModuleFile {
+    readonly source: string;
+    readonly version: string;
+    // Found when first asked for, see ModuleCache.getImports
+    imports?: ModuleImport[];
+}
+
+// Conditions of a package's "exports" a browser previewing ES modules matches
+const EXPORT_CONDITIONS = ['browser', 'import', 'module', 'default'];
+
+// More modules than a page can reasonably load without a bundler
+const MAX_MODULES = 1000;
+
+/**
+ * The import specifiers of an ES module: static imports, re-exports and dynamic imports
+ * of a string. Undefined when the module does not parse.
+ */
+export function findModuleImports(source: string): ModuleImport[] | undefined {
+    let program: unknown;
+    try {
+        program = parse(source, { ecmaVersion: 'latest', sourceType: 'module' });
+    } catch {
+        return undefined;
+    }
+
+    const imports: ModuleImport[] = [];
+    const visit = (node: unknown) => {
+        if (Array.isArray(node)) {
+            node.forEach(visit);
+            return;
+        }
+        if (!node || typeof node !== 'object') {
+            return;
+        }
+        const current = node as { type?: string; source?: { type: string; value?: unknown; start: number; end: number; expressions?: unknown[]; quasis?: { value: { cooked?: string } }[] } };
+        const source = current.source;
+        if (source && (current.type === 'ImportDeclaration' || current.type === 'ExportNamedDeclaration'
+            || current.type === 'ExportAllDeclaration' || current.type === 'ImportExpression')) {
+            if (source.type === 'Literal' && typeof source.value === 'string') {
+                imports.push({ specifier: source.value, start: source.start, end: source.end });
+            } else if (source.type === 'TemplateLiteral' && source.expressions?.length === 0 && source.quasis?.[0].value.cooked !== undefined) {
+                imports.push({ specifier: source.quasis[0].value.cooked, start: source.start, end: source.end });
+            }
+        }
+        Object.values(node).forEach(visit);
+    };
+    visit(program);
+    return imports;
+}
+
+/**
+ * Relative (`./`, `../`) and root-relative specifiers point at files; bare ones
+ * (`lit`, `@scope/package/path.js`) at packages; anything with a scheme is left alone.
+ */
+export function getSpecifierKind(specifier: string): 'relative' | 'root' | 'bare' | 'url' {
+    if (/^\.{1,2}\//.test(specifier)) {
+        return 'relative';
+    }
+    if (specifier.startsWith('//') || /^[a-z][a-z\d+.-]*:/i.test(specifier)) {
+        return 'url';
+    }
+    return specifier.startsWith('/') ? 'root' : 'bare';
+}
+
+/**
+ * The module files and package manifests module graphs are built from, read and parsed
+ * once per version: the text of the open document, or the modification time and size
+ * of the file on disk. Changed files are dropped when the file watcher reports them.
+ */
+export class ModuleCache implements vscode.Disposable {
+    private readonly _files = new Map<string, ModuleFile>();
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly _read: Reader, watcher: vscode.FileSystemWatcher) {
+        const onChange = (uri: vscode.Uri) => this._files.delete(uri.toString());
+        watcher.onDidChange(onChange, null, this._disposables);
+        watcher.onDidCreate(onChange, null, this._disposables);
+        watcher.onDidDelete(onChange, null, this._disposables);
+    }
+
+    /**
+     * The file, undefined when it cannot be read.
+     */
+    public async load(uri: vscode.Uri): Promise<ModuleFile | undefined> {
+        const key = uri.toString();
+        const cached = this._files.get(key);
+        // Document versions start over when a document is opened again, so its text is compared
+        const openDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === key);
+        if (openDocument) {
+            const text = openDocument.getText();
+            return cached?.version === 'document' && cached.source === text ? cached : this._store(key, 'document', text);
+        }
+
+        const version = await this._getFileVersion(uri);
+        if (version !== undefined && cached?.version === version) {
+            return cached;
+        }
+        const source = version === undefined ? undefined : await this._read(uri);
+        if (version === undefined || source === undefined) {
+            this._files.delete(key);
+            return undefined;
+        }
+        return this._store(key, version, source);
+    }
+
+    /**
+     * The imports of an ES module, none when it does not parse.
+     */
+    public getImports(file: ModuleFile): ModuleImport[] {
+        if (!file.imports) {
+            file.imports = findModuleImports(file.source) ?? [];
+        }
+        return file.imports;
+    }
+
+    private _store(key: string, version: string, source: string): ModuleFile {
+        const file: ModuleFile = { version: version, source: source };
+        this._files.set(key, file);
+        return file;
+    }
+
+    private async _getFileVersion(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            return stat.type & vscode.FileType.Directory ? undefined : `file ${stat.mtime} ${stat.size}`;
+        } catch {
+            return undefined;
+        }
+    }
+
+    public dispose() {
+        this._files.clear();
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
+
+/**
+ * Follows the imports of a page's ES modules to build the import map that lets them
+ * load in the preview. Bare specifiers are resolved the way Node.js does, through the
+ * nearest `node_modules` and the package's "exports" (or "module"/"main"), and mapped to
+ * the package file; a package found in a nested `node_modules` gets a scope. Modules
+ * loaded from files resolve relative imports themselves, but root-relative ones would
+ * resolve against the file system root, so they are mapped to the workspace folder.
+ */
+export class ModuleGraph {
+    private readonly _tasks: ModuleTask[] = [];
+    private readonly _seen = new Set<string>();
+    private _moduleCount = 0;
+
+    // Local modules outside of node_modules, whose changes should refresh the page
+    public readonly files: vscode.Uri[] = [];
+    // Imports that lead nowhere: module files that do not exist and unknown packages
+    public readonly missing: { specifier: string; uri?: vscode.Uri }[] = [];
+
+    constructor(
+        private readonly _cache: ModuleCache,
+        private readonly _toUrl: (uri: vscode.Uri) => string
+    ) { }
+
+    public addModule(uri: vscode.Uri) {
+        this._tasks.push({ uri: uri });
+    }
+
+    public addBareImport(specifier: string, directory: vscode.Uri) {
+        this._tasks.push({ specifier: specifier, directory: directory });
+    }
+
+    /**
+     * Loads every module reachable from the ones added. Specifiers for which `isMapped`
+     * returns true are mapped by the page's own import map already.
+     */
+    public async build(isMapped: (specifier: string) => boolean): Promise<ImportMap> {
+        const map: ImportMap = { imports: {}, scopes: {} };
+        while (this._tasks.length > 0 && this._moduleCount < MAX_MODULES) {
+            const task = this._tasks.shift()!;
+            if ('uri' in task) {
+                await this._loadModule(task.uri, map);
+            } else if (!isMapped(task.specifier)) {
+                await this._mapPackage(task.specifier, task.directory, map);
+            }
+        }
+        return map;
+    }
+
+    private async _loadModule(uri: vscode.Uri, map: ImportMap) {
+        const key = uri.toString();
+        if (this._seen.has(key)) {
+            return;
+        }
+        this._seen.add(key);
+        this._moduleCount++;
+
+        const file = await this._cache.load(uri);
+        if (!file) {
+            this.missing.push({ specifier: path.posix.basename(uri.path), uri: uri });
+            return;
+        }
+        if (!uri.path.includes('/node_modules/')) {
+            this.files.push(uri);
+        }
+        // JSON, CSS and other module types have no imports
+        const imports = /\.m?js$/i.test(uri.path) ? this._cache.getImports(file) : [];
+
+        const directory = vscode.Uri.joinPath(uri, '..');
+        for (const { specifier } of imports) {
+            const kind = getSpecifierKind(specifier);
+            const pathPart = specifier.split(/[?#]/)[0];
+            if (kind === 'relative') {
+                this.addModule(vscode.Uri.joinPath(directory, this._decode(pathPart)));
+            } else if (kind === 'root') {
+                const root = vscode.workspace.getWorkspaceFolder(uri)?.uri ?? directory;
+                const target = vscode.Uri.joinPath(root, this._decode(pathPart));
+                map.imports[new URL(specifier, this._toUrl(uri)).href] = this._toUrl(target) + specifier.slice(pathPart.length);
+                this.addModule(target);
+            } else if (kind === 'bare') {
+                this.addBareImport(specifier, directory);
+            }
+        }
+    }
+
+    private async _mapPackage(specifier: string, directory: vscode.Uri, map: ImportMap) {
+        const key = `${directory.toString()}\n${specifier}`;
+        if (this._seen.has(key)) {
+            return;
+        }
+        this._seen.add(key);
+
+        const resolved = await this._resolvePackage(specifier, directory);
+        if (!resolved) {
+            this.missing.push({ specifier: specifier });
+            return;
+        }
+
+        const url = this._toUrl(resolved.uri);
+        if (map.imports[specifier] === undefined) {
+            map.imports[specifier] = url;
+            // Without "exports" every file of the package may be imported
+            const prefix = `${resolved.name}/`;
+            if (!resolved.hasExports && map.imports[prefix] === undefined) {
+                map.imports[prefix] = this._toUrl(resolved.packageDirectory) + '/';
+            }
+        } else if (map.imports[specifier] !== url) {
+            // Another version, in a node_modules closer to the importing module
+            const scope = this._toUrl(resolved.scope) + '/';
+            map.scopes[scope] = { ...map.scopes[scope], [specifier]: url };
+        }
+        this.addModule(resolved.uri);
+    }
+
+    /**
+     * Looks for the package in the `node_modules` of the directory and of every directory
+     * above it. `scope` is the directory whose `node_modules` has it.
+     */
+    private async _resolvePackage(specifier: string, directory: vscode.Uri)
+        : Promise<{ uri: vscode.Uri; name: string; packageDirectory: vscode.Uri; scope: vscode.Uri; hasExports: boolean } | undefined> {
+        const match = /^(@[^/]+\/[^/]+|[^/]+)(\/.*)?$/.exec(specifier.split(/[?#]/)[0]);
+        if (!match) {
+            return undefined;
+        }
+        const name = match[1];
+        const subpath = '.' + (match[2] ?? '');
+
+        for (let current = directory; ; current = vscode.Uri.joinPath(current, '..')) {
+            if (path.posix.basename(current.path) !== 'node_modules') {
+                const packageDirectory = vscode.Uri.joinPath(current, 'node_modules', name);
+                const manifest = (await this._cache.load(vscode.Uri.joinPath(packageDirectory, 'package.json')))?.source;
+                if (manifest !== undefined) {
+                    let pkg: { [field: string]: unknown };
+                    try {
+                        pkg = JSON.parse(manifest);
+                    } catch {
+                        pkg = {};
+                    }
+                    const entry = this._resolveEntry(pkg, subpath);
+                    return entry === undefined ? undefined : {
+                        uri: vscode.Uri.joinPath(packageDirectory, entry),
+                        name: name,
+                        packageDirectory: packageDirectory,
+                        scope: current,
+                        hasExports: pkg.exports !== undefined
+                    };
+                }
+            }
+            if (current.path === '/' || vscode.Uri.joinPath(current, '..').path === current.path) {
+                return undefined;
+            }
+        }
+    }
+
+    /**
+     * The file of a package a subpath (`.` for the package itself) refers to, relative
+     * to the package directory.
+     */
+    private _resolveEntry(pkg: { [field: string]: unknown }, subpath: string): string | undefined {
+        if (pkg.exports === undefined || pkg.exports === null) {
+            if (subpath !== '.') {
+                return subpath;
+            }
+            const entry = [pkg.module, pkg.browser, pkg.main].find((field): field is string => typeof field === 'string');
+            return entry ?? 'index.js';
+        }
+
+        // Conditions only ("exports": {"import": ...}) or a plain target are the package itself
+        let exports = pkg.exports as { [key: string]: unknown };
+        if (typeof exports !== 'object' || Array.isArray(exports) || !Object.keys(exports).some(key => key.startsWith('.'))) {
+            exports = { '.': exports };
+        }
+        if (exports[subpath] !== undefined) {
+            return this._resolveTarget(exports[subpath]);
+        }
+        for (const [key, target] of Object.entries(exports)) {
+            const [prefix, suffix] = key.split('*');
+            if (suffix !== undefined && subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= prefix.length + suffix.length) {
+                const replacement = subpath.slice(prefix.length, subpath.length - suffix.length);
+                return this._resolveTarget(target)?.replace(/\*/g, replacement);
+            }
+        }
+        return undefined;
+    }
+
+    private _resolveTarget(target: unknown): string | undefined {
+        if (typeof target === 'string') {
+            return target;
+        }
+        if (Array.isArray(target)) {
+            return target.map(t => this._resolveTarget(t)).find(t => t !== undefined);
+        }
+        if (target && typeof target === 'object') {
+            for (const [condition, value] of Object.entries(target)) {
+                const resolved = EXPORT_CONDITIONS.includes(condition) ? this._resolveTarget(value) : undefined;
+                if (resolved !== undefined) {
+                    return resolved;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    private _decode(pathPart: string): string {
+        try {
+            return decodeURIComponent(pathPart);
+        } catch {
+            return pathPart;
+        }
+    }
+}
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import { PreviewLocation, PreviewTab, PreviewTabManager, TabMode } from './previewTabManager';
+
+export interface PreviewTabInfo {
+    id: string;
+    title: string;
+    // The file the tab shows, undefined for an empty tab
+    uri?: vscode.Uri;
+    location: PreviewLocation;
+    mode: TabMode;
+    pinned: boolean;
+    // Snapshots show a frozen page that never updates
+    snapshot: boolean;
+    // Whether the tab is the one shown at its location
+    active: boolean;
+    // Number of markup problems found in the last render
+    problems: number;
+}
+
+export interface PreviewRenderEvent {
+    tab: PreviewTabInfo;
+    // Whether the running page was patched in place rather than loaded
+    patched: boolean;
+}
+
+export interface PageElement {
+    outerHTML: string;
+    text: string;
+    // In CSS pixels, relative to the page's viewport
+    bounds: { x: number; y: number; width: number; height: number };
+}
+
+export interface OpenFileOptions {
+    // Where to open the tab; by default the preview used last, or the editor panel
+    location?: PreviewLocation;
+}
+
+/**
+ * What `activate` returns, for other extensions and agents to drive the preview:
+ *
+ * ```ts
+ * const api = await vscode.extensions.getExtension<AntigravityPreviewApi>('torsten-wich-heiter.antigravity-live-preview')?.activate();
+ * const tab = await api.openFile(uri);
+ * const title = await api.evaluate(tab.id, 'document.title');
+ * ```
+ *
+ * Requests for a page show its tab first when it is not the active one, opening its
+ * preview if needed, and wait for the page to load.
+ */
+export interface AntigravityPreviewApi {
+    /**
+     * Opens an HTML file in a new locked tab, which becomes the active one.
+     */
+    openFile(uri: vscode.Uri, options?: OpenFileOptions): Promise<PreviewTabInfo>;
+    getTabs(): PreviewTabInfo[];
+    /**
+     * Closes a tab. Returns false when there is no such tab.
+     */
+    closeTab(tabId: string): boolean;
+    /**
+     * Fires with all tabs when tabs were added, closed, switched or changed state.
+     */
+    readonly onDidChangeTabs: vscode.Event<PreviewTabInfo[]>;
+    /**
+     * Fires when the page of an active tab finished loading or was patched after an edit.
+     */
+    readonly onDidRender: vscode.Event<PreviewRenderEvent>;
+    /**
+     * Runs a script in a tab's page and returns the value of its last statement (awaited
+     * when it is a promise), as it comes out of JSON. Only trusted pages run scripts.
+     */
+    evaluate(tabId: string, script: string): Promise<unknown>;
+    /**
+     * The outer HTML, text content and bounding box of the page's elements matching a selector.
+     */
+    querySelectorAll(tabId: string, selector: string): Promise<PageElement[]>;
+}
+
+/**
+ * What the editor panel and the preview view offer the API for the tabs they show.
+ */
+export interface PreviewTarget {
+    openFileInNewTab(uri: vscode.Uri): Promise<void>;
+    closeTab(tabId: string): void;
+    evaluate(tabId: string, script: string): Promise<unknown>;
+    queryElements(tabId: string, selector: string): Promise<PageElement[]>;
+}
+
+export interface PreviewTargets {
+    // The preview of a location, if it is open
+    find(location: PreviewLocation): PreviewTarget | undefined;
+    // The preview of a location, opened if needed
+    show(location: PreviewLocation): Promise<PreviewTarget | undefined>;
+}
+
+export class PreviewApi implements AntigravityPreviewApi, vscode.Disposable {
+    private readonly _onDidChangeTabs = new vscode.EventEmitter<PreviewTabInfo[]>();
+    private readonly _onDidRender = new vscode.EventEmitter<PreviewRenderEvent>();
+    private _disposables: vscode.Disposable[] = [];
+
+    public readonly onDidChangeTabs = this._onDidChangeTabs.event;
+    public readonly onDidRender = this._onDidRender.event;
+
+    constructor(
+        private readonly _manager: PreviewTabManager,
+        private readonly _previews: PreviewTargets
+    ) {
+        this._manager.onDidUpdateTabs(() => this._onDidChangeTabs.fire(this.getTabs()), null, this._disposables);
+        this._manager.onDidRenderTab(e => this._onDidRender.fire({ tab: this._describe(e.tab), patched: e.patched }), null, this._disposables);
+    }
+
+    public async openFile(uri: vscode.Uri, options?: OpenFileOptions): Promise<PreviewTabInfo> {
+        if (!/\.html?$/i.test(uri.path)) {
+            throw new Error(`Only HTML files open in preview tabs, not ${uri.toString()}`);
+        }
+        const location = options?.location ?? this._manager.activeLocation ?? 'panel';
+        const preview = await this._showPreview(location);
+        await preview.openFileInNewTab(uri);
+        const tab = this._manager.getTab(this._manager.getActiveTabId(location));
+        if (!tab || tab.uri?.toString() !== uri.toString()) {
+            throw new Error(`Could not open ${uri.toString()}`);
+        }
+        return this._describe(tab);
+    }
+
+    public getTabs(): PreviewTabInfo[] {
+        return this._manager.tabs.map(tab => this._describe(tab));
+    }
+
+    public closeTab(tabId: string): boolean {
+        const tab = this._manager.getTab(tabId);
+        if (!tab) {
+            return false;
+        }
+        const preview = this._previews.find(tab.location);
+        if (preview) {
+            preview.closeTab(tabId);
+            return true;
+        }
+        // The tabs of a closed preview come back when it opens, without this one
+        this._manager.removeTab(tabId);
+        if (this._manager.getActiveTabId(tab.location) === tabId) {
+            this._manager.setActiveTabId(tab.location, this._manager.tabsIn(tab.location)[0]?.id ?? '');
+        }
+        this._manager.saveState();
+        return true;
+    }
+
+    public async evaluate(tabId: string, script: string): Promise<unknown> {
+        const tab = this._getTab(tabId);
+        return (await this._showPreview(tab.location)).evaluate(tabId, script);
+    }
+
+    public async querySelectorAll(tabId: string, selector: string): Promise<PageElement[]> {
+        const tab = this._getTab(tabId);
+        return (await this._showPreview(tab.location)).queryElements(tabId, selector);
+    }
+
+    private _getTab(tabId: string): PreviewTab {
+        const tab = this._manager.getTab(tabId);
+        if (!tab) {
+            throw new Error(`There is no preview tab ${tabId}`);
+        }
+        return tab;
+    }
+
+    private async _showPreview(location: PreviewLocation): Promise<PreviewTarget> {
+        const preview = await this._previews.show(location);
+        if (!preview) {
+            throw new Error(`The preview ${location === 'panel' ? 'panel' : 'view'} could not be opened`);
+        }
+        return preview;
+    }
+
+    private _describe(tab: PreviewTab): PreviewTabInfo {
+        return {
+            id: tab.id,
+            title: tab.title,
+            uri: tab.uri,
+            location: tab.location,
+            mode: tab.mode,
+            pinned: tab.pinned,
+            snapshot: tab.snapshot !== undefined,
+            active: this._manager.getActiveTabId(tab.location) === tab.id,
+            problems: tab.problems
+        };
+    }
+
+    public dispose() {
+        this._onDidChangeTabs.dispose();
+        this._onDidRender.dispose();
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
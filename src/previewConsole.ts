@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export interface ScriptSource {
+    uri: vscode.Uri;
+    // Zero-based position of the first character of the script in its source file
+    line: number;
+    character: number;
+}
+
+export interface ConsoleEntry {
+    level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+    message: string;
+    stack?: string;
+    filename?: string;
+    lineno?: number;
+    colno?: number;
+}
+
+/**
+ * Collects console output and runtime errors of previewed pages.
+ *
+ * Everything is written to the "Antigravity Preview" output channel, tagged with the
+ * tab it came from. Errors that can be traced back to a script are also published as
+ * diagnostics on the original file: every script of a rendered page is registered here
+ * and gets a `//# sourceURL` name, which the browser then uses in stack traces.
+ *
+ * The editor panel and the preview view share one console. Scripts and diagnostics
+ * belong to the scope of the preview that rendered them, so each preview only resets
+ * its own.
+ */
+export class PreviewConsole implements vscode.Disposable {
+    private readonly _output = vscode.window.createOutputChannel('Antigravity Preview');
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection('antigravity-preview');
+    private _scripts = new Map<string, Map<string, ScriptSource>>();
+    private _scopeDiagnostics = new Map<string, Map<string, vscode.Diagnostic[]>>();
+    private _scriptCounter: number = 0;
+
+    /**
+     * Forgets the scripts of a scope's previous render and clears its diagnostics.
+     */
+    public reset(scope: string) {
+        this._scripts.delete(scope);
+        const diagnostics = this._scopeDiagnostics.get(scope);
+        this._scopeDiagnostics.delete(scope);
+        diagnostics?.forEach((_, uri) => this._publish(vscode.Uri.parse(uri)));
+    }
+
+    /**
+     * Registers a script of the page being rendered and returns the name to use in
+     * its `//# sourceURL` comment.
+     */
+    public registerScript(scope: string, source: ScriptSource): string {
+        const fileName = path.basename(source.uri.path).replace(/[^\w.-]/g, '_');
+        const name = `antigravity-preview/${++this._scriptCounter}/${fileName}`;
+        let scripts = this._scripts.get(scope);
+        if (!scripts) {
+            scripts = new Map<string, ScriptSource>();
+            this._scripts.set(scope, scripts);
+        }
+        scripts.set(name, source);
+        return name;
+    }
+
+    public log(scope: string, tabLabel: string, entry: ConsoleEntry) {
+        const time = new Date().toLocaleTimeString();
+        const level = entry.level.toUpperCase().padEnd(5);
+        this._output.appendLine(`[${time}] [${tabLabel}] ${level} ${entry.message}`);
+        if (entry.stack) {
+            this._output.appendLine(this._mapStack(scope, entry.stack).replace(/^/gm, '    '));
+        }
+
+        if (entry.level === 'error') {
+            this._addDiagnostic(scope, entry);
+        }
+    }
+
+    public show() {
+        this._output.show(true);
+    }
+
+    private _addDiagnostic(scope: string, entry: ConsoleEntry) {
+        const location = this._findLocation(scope, entry);
+        if (!location) {
+            return;
+        }
+
+        const position = new vscode.Position(location.line, location.character);
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(position, position.translate(0, 1)),
+            entry.message,
+            vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = 'Antigravity Preview';
+
+        let diagnostics = this._scopeDiagnostics.get(scope);
+        if (!diagnostics) {
+            diagnostics = new Map<string, vscode.Diagnostic[]>();
+            this._scopeDiagnostics.set(scope, diagnostics);
+        }
+        const existing = diagnostics.get(location.uri.toString()) || [];
+        if (!existing.some(d => d.message === diagnostic.message && d.range.isEqual(diagnostic.range))) {
+            diagnostics.set(location.uri.toString(), [...existing, diagnostic]);
+            this._publish(location.uri);
+        }
+    }
+
+    /**
+     * Shows the diagnostics all scopes have for a file, each error once.
+     */
+    private _publish(uri: vscode.Uri) {
+        const all: vscode.Diagnostic[] = [];
+        this._scopeDiagnostics.forEach(diagnostics => {
+            for (const diagnostic of diagnostics.get(uri.toString()) || []) {
+                if (!all.some(d => d.message === diagnostic.message && d.range.isEqual(diagnostic.range))) {
+                    all.push(diagnostic);
+                }
+            }
+        });
+        this._diagnostics.set(uri, all);
+    }
+
+    /**
+     * Maps the top-most known frame of an error (or its filename/line) back to the source file.
+     */
+    private _findLocation(scope: string, entry: ConsoleEntry): ScriptSource | undefined {
+        const frames: { name: string; line: number; column: number }[] = [];
+        const framePattern = /(antigravity-preview\/[^\s():]+):(\d+):(\d+)/g;
+        let match: RegExpExecArray | null;
+        while ((match = framePattern.exec(entry.stack || '')) !== null) {
+            frames.push({ name: match[1], line: Number(match[2]), column: Number(match[3]) });
+        }
+        if (entry.filename && entry.lineno) {
+            frames.push({ name: entry.filename, line: entry.lineno, column: entry.colno || 1 });
+        }
+
+        for (const frame of frames) {
+            const location = this._mapFrame(scope, frame.name, frame.line, frame.column);
+            if (location) {
+                return location;
+            }
+        }
+        return undefined;
+    }
+
+    private _mapFrame(scope: string, name: string, line: number, column: number): ScriptSource | undefined {
+        const script = this._scripts.get(scope)?.get(name);
+        if (!script) {
+            return undefined;
+        }
+        // Frames are one-based and relative to the start of the script
+        return {
+            uri: script.uri,
+            line: script.line + line - 1,
+            character: Math.max(0, (line === 1 ? script.character : 0) + column - 1)
+        };
+    }
+
+    private _mapStack(scope: string, stack: string): string {
+        return stack.replace(/(antigravity-preview\/[^\s():]+):(\d+):(\d+)/g, (match, name, line, column) => {
+            const location = this._mapFrame(scope, name, Number(line), Number(column));
+            if (!location) {
+                return match;
+            }
+            return `${vscode.workspace.asRelativePath(location.uri)}:${location.line + 1}:${location.character + 1}`;
+        });
+    }
+
+    public dispose() {
+        this._output.dispose();
+        this._diagnostics.dispose();
+    }
+}
@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ResourceRewriter } from './resourceRewriter';
+import { TemplateRenderer } from './templateRenderer';
+
+/**
+ * Writes a page as one portable HTML file: includes and templates are expanded,
+ * stylesheets and scripts are inlined, and images, fonts and every other local file are
+ * embedded as data: URIs. References that cannot be resolved are left as they are and
+ * listed once the file is written.
+ */
+export async function exportStandaloneHtml(content: string, documentUri: vscode.Uri, templates: TemplateRenderer): Promise<void> {
+    const baseName = path.posix.basename(documentUri.path).replace(/\.[^.]*$/, '') || 'preview';
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: documentUri.scheme !== 'untitled'
+            ? vscode.Uri.joinPath(documentUri, '..', `${baseName}.standalone.html`)
+            : undefined,
+        filters: { 'HTML': ['html', 'htm'] },
+        saveLabel: 'Export'
+    });
+    if (!target) {
+        return;
+    }
+
+    const template = await templates.render(content, documentUri);
+    const result = await new ResourceRewriter(undefined, { inline: true, embed: true }).rewriteHtml(template.html, documentUri);
+    await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(result.html));
+
+    const targetName = vscode.workspace.asRelativePath(target);
+    if (result.missing.length === 0) {
+        vscode.window.showInformationMessage(`Antigravity: Exported ${targetName}`);
+        return;
+    }
+
+    const details = [...new Set(result.missing.map(missing => `${missing.reference} (line ${(template.lines?.[missing.line] ?? missing.line) + 1})`))];
+    vscode.window.showWarningMessage(
+        `Antigravity: Exported ${targetName}, but ${details.length} reference(s) could not be resolved and still point to local files.`,
+        { modal: true, detail: details.join('\n') }
+    );
+}
@@ -0,0 +1,2836 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { PreviewServer } from './previewServer';
+import { PreviewConsole } from './previewConsole';
+import { HtmlValidator } from './htmlValidator';
+import { AccessibilityAudit, AuditFinding } from './accessibilityAudit';
+import { MockBackend, MockRequest } from './mockBackend';
+import { TemplateRenderer, TemplateResult } from './templateRenderer';
+import { ModuleCache } from './moduleResolver';
+import { collectElements, escapeAttribute, escapeHtml, injectIntoHead } from './htmlUtils';
+import { NONCE_PLACEHOLDER, SANDBOX_ATTRIBUTES, buildContentSecurityPolicy, buildPagePolicy, createNonce, getEventHandlerHashes } from './contentSecurity';
+import { exportStandaloneHtml } from './previewExporter';
+import { PageElement } from './previewApi';
+import { MissingResource, ResourceRewriter, RewriteResult, readLocalResource, resourceExists } from './resourceRewriter';
+import { DependencyKind, PreviewLocation, PreviewTab, PreviewTabManager, SandboxProfile, VIEWPORT_PRESETS, Viewport } from './previewTabManager';
+import { getAuditScript, getAutomationScript, getConsoleScript, getDomPatchScript, getInspectorScript, getMockScript, getNavigationScript, getPaneScrollScript, getScrollSyncScript, getStyleHotSwapScript } from './previewScripts';
+import { parse, serialize, serializeOuter } from 'parse5';
+
+type SplitLayout = 'single' | 'side-by-side' | 'stacked';
+
+type Pane = 'primary' | 'compare';
+
+interface RenderOptions {
+    // Primary pane: inspector, scroll sync and style hot-swap are available
+    interactive: boolean;
+    scrollSync: boolean;
+    // Receives the files the page uses
+    dependencies: Map<string, DependencyKind>;
+    // Receives the local files the page references that do not exist
+    missing?: MissingResource[];
+    // Element id to scroll to once the page loaded
+    fragment?: string;
+    sandbox: SandboxProfile;
+    // Only to patch the running page, whose scripts already ran under their names
+    patch?: boolean;
+}
+
+// State of one render of the webview: Content-Security-Policy inputs (see _getPreviewContent)
+// and the pages rendered into the panes
+interface RenderContext {
+    nonce: string;
+    // Whether any page shown is trusted
+    trusted: boolean;
+    eventHandlerHashes: Set<string>;
+    pages: Map<Pane, { tabId: string; html: string }>;
+}
+
+// Commands the previewed pages may send; everything else only comes from the preview's own controls
+const PAGE_COMMANDS = ['previewScrolled', 'inspectElement', 'console', 'openLink', 'fragmentChanged', 'auditResults', 'openAuditFinding', 'mockRequest'];
+
+// How long requests of the extension API wait for a page to load and to answer
+const PAGE_REQUEST_TIMEOUT = 10000;
+
+// Stands in for the line breaks around the `//# sourceURL` of inline scripts until the
+// page's resources are converted, so lines found meanwhile are still the document's
+const SOURCE_URL_BREAK = `/*ag-break-${crypto.randomBytes(8).toString('hex')}*/`;
+
+interface InspectedRule {
+    styleId: string;
+    selector: string;
+}
+
+/**
+ * Renders the tabs of one location (the editor panel or the preview view) into a
+ * webview: tab bar, toolbar, split panes and the previewed pages themselves. Tabs
+ * come from the shared PreviewTabManager, everything else is per host.
+ */
+export class PreviewHost implements vscode.Disposable {
+    private readonly _webview: vscode.Webview;
+    private readonly _location: PreviewLocation;
+    private readonly _manager: PreviewTabManager;
+    private readonly _console: PreviewConsole;
+    private readonly _validator: HtmlValidator;
+    private readonly _audit: AccessibilityAudit;
+    private readonly _mocks: MockBackend;
+    private readonly _templates: TemplateRenderer;
+    private readonly _moduleCache: ModuleCache;
+    private readonly _servers = new Map<string, PreviewServer>();
+    private _disposables: vscode.Disposable[] = [];
+    // Suppresses the editor scroll echo after the preview moved the editor
+    private _ignoreEditorScrollUntil: number = 0;
+    private _inspectMode: boolean = false;
+    // Audits every render of the active tab while on
+    private _auditMode: boolean = false;
+    private _layout: SplitLayout = 'single';
+    private _compareTabId: string = '';
+    private _lockScroll: boolean = true;
+    // Fragment to scroll the active tab to on its next render, after a navigation
+    private _pendingFragment: string | undefined;
+    // Renders wait for files, so only the latest one started may replace the webview's HTML
+    private _renderVersion: number = 0;
+    // Style updates and patches are posted in the order they happened, however long each takes
+    private _pageUpdates: Promise<void> = Promise.resolve();
+    // The page each pane shows as last rendered or patched, which patches are diffed against
+    private _renderedPages = new Map<Pane, { tabId: string; html: string }>();
+    // The tab whose page finished loading in the primary pane, undefined while a page loads
+    private _loadedTabId: string | undefined;
+    private _pageLoads: { tabId: string; resolve: () => void }[] = [];
+    // Requests of the extension API waiting for the page's answer, by a random id
+    private readonly _pageRequests = new Map<string, { resolve: (json: unknown) => void; reject: (error: Error) => void }>();
+
+    constructor(webview: vscode.Webview, location: PreviewLocation, extensionUri: vscode.Uri, manager: PreviewTabManager, previewConsole: PreviewConsole, validator: HtmlValidator, audit: AccessibilityAudit, mocks: MockBackend, templates: TemplateRenderer, moduleCache: ModuleCache, watcher: vscode.FileSystemWatcher) {
+        this._webview = webview;
+        this._location = location;
+        this._manager = manager;
+        this._console = previewConsole;
+        this._validator = validator;
+        this._audit = audit;
+        this._mocks = mocks;
+        this._templates = templates;
+        this._moduleCache = moduleCache;
+
+        // Set up webview
+        this._webview.options = {
+            enableScripts: true,
+            localResourceRoots: [
+                extensionUri,
+                ...(vscode.workspace.workspaceFolders?.map(f => f.uri) || [])
+            ]
+        };
+
+        // Start with an initial tab if there is none at this location yet
+        if (this._tabs.length === 0) {
+            this._addNewTab();
+        }
+
+        // Initial render
+        this._update();
+        this._manager.setLocationOpen(this._location, true);
+
+        // Tabs moved here or away, or restored tabs finished loading
+        this._manager.onDidChangeTabs(() => {
+            if (this._tabs.length === 0) {
+                this._addNewTab();
+            }
+            this._update();
+        }, null, this._disposables);
+
+        // Update every tab bound to or using a changed file (debounced per file)
+        const timeouts = new Map<string, NodeJS.Timeout>();
+        const scheduleUpdate = (uri: vscode.Uri, update: () => void) => {
+            if (!this._isWatched(uri)) {
+                return;
+            }
+            const key = uri.toString();
+            const pending = timeouts.get(key);
+            if (pending) {
+                clearTimeout(pending);
+            }
+            timeouts.set(key, setTimeout(() => {
+                timeouts.delete(key);
+                update();
+            }, 300));
+        };
+        this._disposables.push({ dispose: () => timeouts.forEach(t => clearTimeout(t)) });
+
+        // Edits in an editor, saved or not
+        vscode.workspace.onDidChangeTextDocument(e => {
+            scheduleUpdate(e.document.uri, () => {
+                this._updateTabsForDocument(e.document);
+                this._updateDependents(e.document.uri);
+                this._notifyServers(e.document.uri);
+            });
+        }, null, this._disposables);
+
+        // Changes on disk to files that are not open (build output, git checkouts, images)
+        const onDiskChange = (uri: vscode.Uri) => {
+            // Open documents are covered above, and their unsaved text wins over the disk
+            if (vscode.workspace.textDocuments.some(d => d.uri.toString() === uri.toString())) {
+                return;
+            }
+            scheduleUpdate(uri, () => {
+                this._updateTabsForFile(uri);
+                this._updateDependents(uri);
+                this._notifyServers(uri);
+            });
+        };
+        watcher.onDidChange(onDiskChange, null, this._disposables);
+        watcher.onDidCreate(onDiskChange, null, this._disposables);
+        watcher.onDidDelete(onDiskChange, null, this._disposables);
+
+        // Update immediately on save
+        vscode.workspace.onDidSaveTextDocument(document => {
+            this._updateTabsForDocument(document);
+        }, null, this._disposables);
+
+        // Update on editor switch (only tabs in follow mode)
+        vscode.window.onDidChangeActiveTextEditor(() => {
+            this._updateActiveTabFromEditor();
+        }, null, this._disposables);
+
+        // Scroll the preview along with the editor
+        vscode.window.onDidChangeTextEditorVisibleRanges(e => {
+            this._syncPreviewScroll(e.textEditor);
+        }, null, this._disposables);
+
+        // Give the rendered pages the new mock routes without reloading them
+        this._mocks.onDidChangeRoutes(async () => {
+            const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+            const compareTab = this._getCompareTab();
+            if (activeTab?.uri) {
+                this._postToPreview({ command: 'setMockRoutes', routes: await this._mocks.getRoutes(activeTab.uri) });
+            }
+            if (compareTab?.uri) {
+                this._postToPreview({ command: 'setMockRoutes', routes: await this._mocks.getRoutes(compareTab.uri), pane: 'compare' });
+            }
+        }, null, this._disposables);
+
+        // Trusted tabs run their page's scripts once the workspace is trusted
+        vscode.workspace.onDidGrantWorkspaceTrust(() => {
+            this._update();
+        }, null, this._disposables);
+
+        // Switch between inline and server rendering
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('antigravity.previewMode') || e.affectsConfiguration('antigravity.server.port')) {
+                this._disposeServers();
+                this._update();
+            }
+        }, null, this._disposables);
+
+        // Handle messages from webview
+        this._webview.onDidReceiveMessage(
+            async message => {
+                // The compare pane is read-only, only its console output and requests are of interest
+                if (message.pane === 'compare' && message.command !== 'console' && message.command !== 'mockRequest') {
+                    return;
+                }
+                if (message.pane && !PAGE_COMMANDS.includes(message.command)) {
+                    return;
+                }
+
+                switch (message.command) {
+                    case 'focus':
+                        this._manager.setLocationUsed(this._location);
+                        break;
+                    case 'selectFile':
+                        await this._selectFile();
+                        break;
+                    case 'switchTab':
+                        this._switchTab(message.tabId);
+                        break;
+                    case 'closeTab':
+                        this._closeTab(message.tabId);
+                        break;
+                    case 'moveTab':
+                        this._moveTab(message.tabId);
+                        break;
+                    case 'reorderTab':
+                        this._changeTabs(() => this._manager.reorderTab(message.tabId, message.beforeTabId || undefined));
+                        break;
+                    case 'tabAction':
+                        await this._runTabAction(message.tabId, message.action);
+                        break;
+                    case 'openFiles':
+                        await this._openFiles(Array.isArray(message.uris) ? message.uris.map(String) : []);
+                        break;
+                    case 'toggleTabMode':
+                        this._toggleTabMode(message.tabId);
+                        break;
+                    case 'setViewport':
+                        this._setViewport(message.viewport);
+                        break;
+                    case 'toggleScrollSync':
+                        this._toggleScrollSync();
+                        break;
+                    case 'toggleSandbox':
+                        await this._toggleSandbox();
+                        break;
+                    case 'previewScrolled':
+                        this._syncEditorScroll(message.line);
+                        break;
+                    case 'setInspectMode':
+                        this._inspectMode = message.enabled;
+                        this._postToPreview({ command: 'setInspectMode', enabled: message.enabled });
+                        break;
+                    case 'inspectElement':
+                        await this._inspectElement(message.line, message.tagName, message.description, message.rules);
+                        break;
+                    case 'setAuditMode':
+                        this._setAuditMode(message.enabled);
+                        break;
+                    case 'auditResults':
+                        this._showAuditResults(message.findings);
+                        break;
+                    case 'openAuditFinding':
+                        await this._audit.openFinding(message.index, this);
+                        break;
+                    case 'console': {
+                        const tabId = message.pane === 'compare' ? this._getCompareTab()?.id : this._activeTabId;
+                        this._console.log(this._location, this._tabs.find(t => t.id === tabId)?.title || 'Preview', message);
+                        break;
+                    }
+                    case 'pageRendered':
+                        this._onPageRendered(message.patched === true);
+                        break;
+                    case 'automationResult':
+                        this._answerPageRequest(message);
+                        break;
+                    case 'mockRequest':
+                        await this._answerMockRequest(message.pane, message.id, message);
+                        break;
+                    case 'setLayout':
+                        this._layout = message.layout;
+                        this._update();
+                        break;
+                    case 'setCompareTab':
+                        this._compareTabId = message.tabId;
+                        this._update();
+                        break;
+                    case 'setLockScroll':
+                        this._lockScroll = message.enabled;
+                        break;
+                    case 'snapshotTab':
+                        this._snapshotTab();
+                        break;
+                    case 'exportTab':
+                        await this.exportActiveTab();
+                        break;
+                    case 'openSource':
+                        await this._openSource(vscode.Uri.parse(message.uri), message.line);
+                        break;
+                    case 'addTab':
+                        this.addNewTab();
+                        break;
+                    case 'openLink':
+                        this._handleLink(message.href, !!message.newTab);
+                        break;
+                    case 'navigateTo':
+                        await this._navigateTo(message.address);
+                        break;
+                    case 'navigateHistory':
+                        await this._navigateHistory(message.delta);
+                        break;
+                    case 'reload':
+                        await this._reload();
+                        break;
+                    case 'fragmentChanged':
+                        this._fragmentChanged(message.fragment);
+                        break;
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    private get _tabs(): PreviewTab[] {
+        return this._manager.tabsIn(this._location);
+    }
+
+    private get _activeTabId(): string {
+        return this._manager.getActiveTabId(this._location);
+    }
+
+    private set _activeTabId(tabId: string) {
+        this._manager.setActiveTabId(this._location, tabId);
+    }
+
+    public addNewTab() {
+        this._addNewTab();
+        this._update();
+    }
+
+    private _addNewTab() {
+        this._manager.createTab(this._location);
+
+        // Try to fill with current editor
+        this._updateActiveTabFromEditor();
+    }
+
+    private _toggleTabMode(tabId: string) {
+        const tab = this._tabs.find(t => t.id === tabId);
+        if (tab && tab.snapshot === undefined) {
+            tab.mode = tab.mode === 'follow' ? 'locked' : 'follow';
+            if (tab.mode !== 'follow' || tab.id !== this._activeTabId || !this._updateActiveTabFromEditor()) {
+                this._updateTabBar();
+            }
+        }
+    }
+
+    /**
+     * Stores the viewport chosen in the toolbar. The webview already resized the
+     * preview itself, so the page is not re-rendered.
+     */
+    private _setViewport(viewport: Viewport) {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (activeTab) {
+            activeTab.viewport = {
+                preset: String(viewport.preset),
+                width: Math.max(0, Number(viewport.width) || 0),
+                height: Math.max(0, Number(viewport.height) || 0),
+                rotated: !!viewport.rotated,
+                fit: !!viewport.fit
+            };
+            this._manager.saveState();
+        }
+    }
+
+    private _toggleScrollSync() {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (activeTab) {
+            activeTab.scrollSync = !activeTab.scrollSync;
+            this._update();
+        }
+    }
+
+    /**
+     * Switches the active tab between running the page's own scripts and blocking them.
+     * Pages of untrusted workspaces stay blocked until the workspace is trusted.
+     */
+    private async _toggleSandbox() {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (!activeTab || activeTab.snapshot !== undefined) {
+            return;
+        }
+        if (!vscode.workspace.isTrusted) {
+            const manage = 'Manage Workspace Trust';
+            if (await vscode.window.showInformationMessage('Antigravity: Scripts of previewed pages only run in trusted workspaces.', manage) === manage) {
+                vscode.commands.executeCommand('workbench.trust.manage');
+            }
+            return;
+        }
+        activeTab.sandbox = activeTab.sandbox === 'trusted' ? 'untrusted' : 'trusted';
+        this._update();
+    }
+
+    private _getSandbox(tab: PreviewTab): SandboxProfile {
+        return vscode.workspace.isTrusted && tab.sandbox === 'trusted' ? 'trusted' : 'untrusted';
+    }
+
+    private _syncPreviewScroll(editor: vscode.TextEditor) {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (!activeTab?.scrollSync || activeTab.uri?.toString() !== editor.document.uri.toString()) {
+            return;
+        }
+        if (Date.now() < this._ignoreEditorScrollUntil || editor.visibleRanges.length === 0) {
+            return;
+        }
+        this._postToPreview({ command: 'scrollToLine', line: editor.visibleRanges[0].start.line });
+    }
+
+    private _syncEditorScroll(line: number) {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (!activeTab?.scrollSync || !activeTab.uri) {
+            return;
+        }
+        const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === activeTab.uri?.toString());
+        if (editor) {
+            this._ignoreEditorScrollUntil = Date.now() + 300;
+            const position = new vscode.Position(line, 0);
+            editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.AtTop);
+        }
+    }
+
+    /**
+     * Selects the inspected element's start tag in the editor and lists the
+     * stylesheet rules that apply to it in the preview's inspector bar.
+     */
+    private async _inspectElement(line: number, tagName: string, description: string, rules: InspectedRule[]) {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (!activeTab?.uri) {
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(activeTab.uri);
+        const searchStart = document.offsetAt(new vscode.Position(line, 0));
+        // The tag name comes from the page, only a valid one goes into the pattern
+        const startTag = typeof tagName === 'string' && /^[a-z][\w:-]*$/i.test(tagName)
+            ? new RegExp(`<${tagName}\\b[^>]*>`, 'i').exec(document.getText().slice(searchStart))
+            : null;
+        const selection = startTag
+            ? new vscode.Selection(
+                document.positionAt(searchStart + startTag.index),
+                document.positionAt(searchStart + startTag.index + startTag[0].length))
+            : new vscode.Selection(line, 0, line, 0);
+
+        this._ignoreEditorScrollUntil = Date.now() + 300;
+        const visibleEditor = vscode.window.visibleTextEditors.find(e => e.document === document);
+        await vscode.window.showTextDocument(document, {
+            viewColumn: visibleEditor?.viewColumn ?? vscode.ViewColumn.One,
+            selection: selection,
+            preserveFocus: false
+        });
+
+        const locatedRules = await Promise.all(rules.map(async rule => {
+            const location = await this._locateCssRule(activeTab, rule);
+            return {
+                selector: rule.selector,
+                uri: location?.uri.toString(),
+                line: location?.line ?? 0,
+                source: location ? `${path.posix.basename(location.uri.path)}:${location.line + 1}` : 'unknown'
+            };
+        }));
+        this._webview.postMessage({ command: 'showInspection', description: description, rules: locatedRules });
+    }
+
+    /**
+     * Turns audit mode on or off from the toolbar. Turning it on audits the page right
+     * away and shows the Accessibility view.
+     */
+    private _setAuditMode(enabled: boolean) {
+        this._auditMode = enabled;
+        this._postToPreview({ command: 'setAuditMode', enabled: enabled });
+        if (enabled) {
+            vscode.commands.executeCommand(`${AccessibilityAudit.viewType}.focus`);
+        } else {
+            this._audit.clear(this);
+        }
+    }
+
+    /**
+     * Audits the active tab's page, turning audit mode on. Returns false when the tab
+     * shows no document or a page from the preview server, which cannot be audited.
+     */
+    public runAudit(): boolean {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (!activeTab?.uri || !activeTab.content || this._isServed(activeTab)) {
+            return false;
+        }
+        if (this._auditMode) {
+            this._postToPreview({ command: 'setAuditMode', enabled: true });
+        } else {
+            // Render again so the toolbar shows audit mode as on; the page audits itself once loaded
+            this._auditMode = true;
+            this._update();
+        }
+        vscode.commands.executeCommand(`${AccessibilityAudit.viewType}.focus`);
+        return true;
+    }
+
+    private _showAuditResults(findings: AuditFinding[]) {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (!activeTab?.uri || !this._auditMode) {
+            return;
+        }
+        this._audit.show({
+            uri: activeTab.uri,
+            findings: findings,
+            owner: this,
+            highlight: index => this._postToPreview({ command: 'highlightAuditFinding', index: index })
+        });
+    }
+
+    /**
+     * Answers a request a page's mock script intercepted and logs it for the tab.
+     */
+    private async _answerMockRequest(pane: Pane | undefined, id: number, request: MockRequest) {
+        const tab = pane === 'compare' ? this._getCompareTab() : this._tabs.find(t => t.id === this._activeTabId);
+        const started = Date.now();
+        const answer = tab?.uri
+            ? await this._mocks.respond(tab.uri, { method: String(request.method), url: String(request.url), body: request.body })
+            : undefined;
+        if (!answer) {
+            // The route was removed in the meantime
+            this._postToPreview({ command: 'mockResponse', id: id, pane: pane, passThrough: true });
+            return;
+        }
+
+        this._console.log(this._location, tab?.title || 'Preview', {
+            level: answer.response.status >= 500 ? 'warn' : 'info',
+            message: `Mock ${request.method} ${request.url} → ${answer.response.status} from ${answer.source} (${Date.now() - started} ms)`
+        });
+        this._postToPreview({ command: 'mockResponse', id: id, pane: pane, ...answer.response });
+    }
+
+    private async _locateCssRule(tab: PreviewTab, rule: InspectedRule): Promise<{ uri: vscode.Uri; line: number } | undefined> {
+        let uri: vscode.Uri;
+        let text: string | undefined;
+        let lines: number[] | undefined;
+        let searchStart = 0;
+
+        if (rule.styleId.startsWith('inline-')) {
+            // The n-th <style> block of the document itself, with includes and templates
+            // expanded as the page has them
+            if (!tab.uri) {
+                return undefined;
+            }
+            uri = tab.uri;
+            const template = await this._templates.render(tab.content, tab.uri);
+            text = template.html;
+            lines = template.lines;
+            const styleTags = /<style\b[^>]*>/gi;
+            const index = Number(rule.styleId.slice('inline-'.length));
+            for (let i = 0; i <= index; i++) {
+                const match = styleTags.exec(text);
+                if (!match) {
+                    return undefined;
+                }
+                searchStart = match.index + match[0].length;
+            }
+        } else {
+            uri = vscode.Uri.parse(rule.styleId);
+            text = await readLocalResource(uri);
+        }
+        if (text === undefined) {
+            return undefined;
+        }
+
+        // The browser normalizes whitespace around combinators, so match it loosely
+        const pattern = rule.selector.trim().split('').map(char => {
+            if (/\s/.test(char)) {
+                return '\\s*';
+            }
+            const escaped = char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            return ',>+~'.includes(char) ? `\\s*${escaped}\\s*` : escaped;
+        }).join('');
+        const match = new RegExp(`${pattern}\\s*[,{]`).exec(text.slice(searchStart));
+        const offset = match ? searchStart + match.index : searchStart;
+        const line = text.slice(0, offset).split('\n').length - 1;
+        return { uri: uri, line: lines?.[line] ?? line };
+    }
+
+    private async _openSource(uri: vscode.Uri, line: number) {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const position = new vscode.Position(line, 0);
+        await vscode.window.showTextDocument(document, {
+            viewColumn: vscode.ViewColumn.One,
+            selection: new vscode.Selection(position, position)
+        });
+    }
+
+    /**
+     * The tab shown in the second pane of a split layout, if any. Falls back to the
+     * first other tab when none was chosen or the chosen one became the active tab.
+     */
+    private _getCompareTab(): PreviewTab | undefined {
+        if (this._layout === 'single') {
+            return undefined;
+        }
+        return this._tabs.find(t => t.id === this._compareTabId && t.id !== this._activeTabId)
+            ?? this._tabs.find(t => t.id !== this._activeTabId);
+    }
+
+    /**
+     * Freezes the active tab's rendered page into a read-only snapshot tab and
+     * shows it next to the live tab for comparison.
+     */
+    private async _snapshotTab() {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (!activeTab?.uri || !activeTab.content) {
+            vscode.window.showInformationMessage('Antigravity: Open an HTML file in the tab before taking a snapshot.');
+            return;
+        }
+
+        const snapshot: PreviewTab = {
+            id: this._manager.newTabId(),
+            title: `${activeTab.title} @ ${new Date().toLocaleTimeString()}`,
+            uri: activeTab.uri,
+            content: activeTab.content,
+            location: this._location,
+            mode: 'locked',
+            pinned: false,
+            scrollSync: false,
+            viewport: { ...activeTab.viewport },
+            sandbox: activeTab.sandbox,
+            snapshot: activeTab.snapshot ?? await this._renderDocument(await this._templates.render(activeTab.content, activeTab.uri), activeTab.uri, {
+                interactive: false,
+                scrollSync: false,
+                dependencies: new Map<string, DependencyKind>(),
+                sandbox: this._getSandbox(activeTab)
+            }),
+            dependencies: new Map<string, DependencyKind>(),
+            history: [],
+            historyIndex: -1,
+            problems: 0
+        };
+        this._manager.insertTab(snapshot, activeTab);
+
+        this._compareTabId = snapshot.id;
+        if (this._layout === 'single') {
+            this._layout = 'side-by-side';
+        }
+        this._update();
+    }
+
+    /**
+     * Exports the active tab's page as a standalone HTML file. Returns false when the
+     * tab shows no document.
+     */
+    public async exportActiveTab(): Promise<boolean> {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (!activeTab?.uri || !activeTab.content) {
+            return false;
+        }
+        await exportStandaloneHtml(activeTab.content, activeTab.uri, this._templates);
+        return true;
+    }
+
+    /**
+     * Makes a tab of this location the active one.
+     */
+    public showTab(tabId: string) {
+        if (this._tabs.some(t => t.id === tabId)) {
+            this._switchTab(tabId);
+        }
+    }
+
+    /**
+     * Switches to the next (1) or previous (-1) tab, wrapping around at the ends.
+     */
+    public showAdjacentTab(offset: number) {
+        const tabs = this._tabs;
+        const index = tabs.findIndex(t => t.id === this._activeTabId);
+        if (tabs.length > 1) {
+            this._switchTab(tabs[(index + offset + tabs.length) % tabs.length].id);
+        }
+    }
+
+    public closeActiveTab() {
+        this._closeTab(this._activeTabId);
+    }
+
+    /**
+     * Reopens the tab closed last here. Tabs of a file show it as it is now, or as it
+     * was when the tab was closed if it is gone. Returns false when there is none.
+     */
+    public async reopenClosedTab(): Promise<boolean> {
+        const tab = this._manager.reopenClosedTab(this._location);
+        if (!tab) {
+            return false;
+        }
+        if (tab.uri && tab.snapshot === undefined) {
+            try {
+                this._manager.bindTab(tab, await vscode.workspace.openTextDocument(tab.uri));
+            } catch (error) {
+                console.error(`Failed to reload reopened tab ${tab.uri.toString()}`, error);
+            }
+        }
+        this._update();
+        return true;
+    }
+
+    /**
+     * Opens an HTML file in a new locked tab.
+     */
+    public openFileInNewTab(uri: vscode.Uri) {
+        return this._openFiles([uri.toString()]);
+    }
+
+    public closeTab(tabId: string) {
+        this._closeTab(tabId);
+    }
+
+    /**
+     * Runs a script in a tab's page and returns the value of its last statement, as it
+     * comes out of JSON. Only trusted pages may run scripts.
+     */
+    public evaluate(tabId: string, script: string): Promise<unknown> {
+        const tab = this._tabs.find(t => t.id === tabId);
+        if (tab && this._getSandbox(tab) !== 'trusted') {
+            return Promise.reject(new Error('Scripts only run in trusted pages, allow the page\'s scripts first'));
+        }
+        return this._requestFromPage(tabId, { command: 'evaluate', script: script });
+    }
+
+    /**
+     * The outer HTML, text and bounding box of the elements of a tab's page matching a selector.
+     */
+    public async queryElements(tabId: string, selector: string): Promise<PageElement[]> {
+        return await this._requestFromPage(tabId, { command: 'queryElements', selector: selector }) as PageElement[];
+    }
+
+    /**
+     * Sends a request of the extension API to a tab's page and waits for the answer. Only
+     * the active tab's page runs, so another tab is made the active one for the request
+     * and its page is waited for; the tab shown before is shown again afterwards, unless
+     * the user picked a tab in the meantime.
+     */
+    private async _requestFromPage(tabId: string, request: { command: string; [key: string]: unknown }): Promise<unknown> {
+        const tab = this._tabs.find(t => t.id === tabId);
+        if (!tab) {
+            throw new Error(`There is no tab ${tabId} in the preview ${this._location}`);
+        }
+        if (!tab.uri && tab.snapshot === undefined) {
+            throw new Error('The tab shows no page');
+        }
+        if (this._isServed(tab)) {
+            throw new Error('Pages from the preview server cannot be inspected');
+        }
+
+        const previousTabId = this._activeTabId !== tabId ? this._activeTabId : undefined;
+        try {
+            if (this._activeTabId !== tabId || this._loadedTabId !== tabId) {
+                const load = { tabId: tabId, resolve: () => { } };
+                const loaded = new Promise<void>(resolve => load.resolve = resolve);
+                this._pageLoads.push(load);
+                try {
+                    if (this._activeTabId !== tabId) {
+                        this._switchTab(tabId);
+                    }
+                    await this._withTimeout(loaded, 'The page did not load in time');
+                } finally {
+                    this._pageLoads = this._pageLoads.filter(pending => pending !== load);
+                }
+            }
+
+            // The chrome hands the request to the page with a port for the answer, and relays
+            // only what comes back through that port, so pages cannot answer other requests
+            const id = crypto.randomUUID();
+            const answer = new Promise<unknown>((resolve, reject) => this._pageRequests.set(id, { resolve: resolve, reject: reject }));
+            this._postToPreview({ ...request, id: id });
+            try {
+                return await this._withTimeout(answer, 'The page did not answer in time');
+            } finally {
+                this._pageRequests.delete(id);
+            }
+        } finally {
+            if (previousTabId && this._activeTabId === tabId && this._tabs.some(t => t.id === previousTabId)) {
+                this._switchTab(previousTabId);
+            }
+        }
+    }
+
+    private _answerPageRequest(message: { id: string; value?: string; error?: string }) {
+        const request = this._pageRequests.get(message.id);
+        if (!request) {
+            return;
+        }
+        if (typeof message.error === 'string') {
+            request.reject(new Error(message.error));
+            return;
+        }
+        try {
+            request.resolve(typeof message.value === 'string' ? JSON.parse(message.value) : undefined);
+        } catch (error) {
+            request.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    private _withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+        let timeout: NodeJS.Timeout | undefined;
+        const expired = new Promise<never>((_, reject) => {
+            timeout = setTimeout(() => reject(new Error(message)), PAGE_REQUEST_TIMEOUT);
+        });
+        return Promise.race([promise, expired]).finally(() => clearTimeout(timeout));
+    }
+
+    /**
+     * The page of the active tab finished loading, or was patched. Reported by the chrome
+     * (see _getHtmlForWebview), which pages cannot speak for.
+     */
+    private _onPageRendered(patched: boolean) {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (!activeTab) {
+            return;
+        }
+        this._loadedTabId = activeTab.id;
+        this._pageLoads.filter(load => load.tabId === activeTab.id).forEach(load => load.resolve());
+        this._pageLoads = this._pageLoads.filter(load => load.tabId !== activeTab.id);
+        this._manager.notifyTabRendered(activeTab, patched);
+    }
+
+    private _switchTab(tabId: string) {
+        this._activeTabId = tabId;
+        this._update();
+    }
+
+    private _closeTab(tabId: string) {
+        const index = this._tabs.findIndex(t => t.id === tabId);
+        if (index === -1) {
+            return;
+        }
+        this._changeTabs(() => {
+            this._manager.removeTab(tabId);
+            const tabs = this._tabs;
+
+            if (this._compareTabId === tabId) {
+                this._compareTabId = '';
+            }
+            if (this._activeTabId === tabId) {
+                if (tabs.length > 0) {
+                    this._activeTabId = tabs[Math.max(0, index - 1)].id;
+                } else {
+                    this._addNewTab();
+                }
+            }
+        });
+    }
+
+    /**
+     * Changes the tabs, rendering the webview again only when that changes the tabs
+     * shown in the panes; otherwise just the tab bar is updated.
+     */
+    private _changeTabs(change: () => void) {
+        const activeTabId = this._activeTabId;
+        const compareTab = this._getCompareTab();
+        change();
+        if (this._activeTabId === activeTabId && this._getCompareTab() === compareTab) {
+            this._updateTabBar();
+        } else {
+            this._update();
+        }
+    }
+
+    /**
+     * Runs an entry of a tab's context menu.
+     */
+    private async _runTabAction(tabId: string, action: string) {
+        const tab = this._tabs.find(t => t.id === tabId);
+        if (!tab) {
+            return;
+        }
+
+        switch (action) {
+            case 'duplicate':
+                this._manager.duplicateTab(tab);
+                this._update();
+                break;
+            case 'togglePin':
+                this._changeTabs(() => this._manager.setPinned(tab, !tab.pinned));
+                break;
+            case 'close':
+                this._closeTab(tab.id);
+                break;
+            case 'closeOthers':
+                this._closeOtherTabs(tab);
+                break;
+            case 'revealInExplorer':
+                if (tab.uri) {
+                    await vscode.commands.executeCommand('revealInExplorer', tab.uri);
+                }
+                break;
+            case 'openSource':
+                if (tab.uri) {
+                    await vscode.window.showTextDocument(tab.uri, { viewColumn: vscode.ViewColumn.One });
+                }
+                break;
+            case 'copyPath':
+                if (tab.uri) {
+                    await vscode.env.clipboard.writeText(tab.uri.scheme === 'file' ? tab.uri.fsPath : tab.uri.toString());
+                }
+                break;
+            case 'openExternal':
+                await this._openInBrowser(tab);
+                break;
+        }
+    }
+
+    /**
+     * Closes every tab of this location but the given one and the pinned tabs.
+     */
+    private _closeOtherTabs(tab: PreviewTab) {
+        const closing = this._tabs.filter(t => t !== tab && !t.pinned);
+        closing.forEach(t => this._manager.removeTab(t.id));
+        if (closing.some(t => t.id === this._compareTabId)) {
+            this._compareTabId = '';
+        }
+        this._activeTabId = tab.id;
+        this._update();
+    }
+
+    /**
+     * Opens a tab's page in the default browser. It comes from the preview server, so
+     * it has a real origin, shows unsaved edits and reloads when files change.
+     */
+    private async _openInBrowser(tab: PreviewTab) {
+        if (!tab.uri || tab.uri.scheme === 'untitled') {
+            vscode.window.showInformationMessage('Antigravity: Save the document to open it in a browser.');
+            return;
+        }
+        try {
+            const server = await this._getServer(tab.uri);
+            await vscode.env.openExternal(vscode.Uri.parse(server.urlFor(tab.uri)));
+        } catch (error) {
+            console.error('Failed to start preview server', error);
+            vscode.window.showErrorMessage(`Antigravity: Could not start the preview server: ${error}`);
+        }
+    }
+
+    /**
+     * Opens files dropped on the tab bar (e.g. from the Explorer) in new locked tabs.
+     */
+    private async _openFiles(uris: string[]) {
+        const skipped: string[] = [];
+        let opened = false;
+        for (const value of uris) {
+            let uri: vscode.Uri;
+            try {
+                uri = vscode.Uri.parse(value, true);
+            } catch {
+                continue;
+            }
+            if (!/\.html?$/i.test(uri.path)) {
+                skipped.push(path.posix.basename(uri.path));
+                continue;
+            }
+            try {
+                // A file that cannot be opened leaves no empty tab behind
+                const document = await vscode.workspace.openTextDocument(uri);
+                const tab = this._manager.createTab(this._location);
+                tab.mode = 'locked';
+                this._manager.bindTab(tab, document);
+                opened = true;
+            } catch (error) {
+                console.error(`Failed to open dropped file ${value}`, error);
+            }
+        }
+
+        if (skipped.length > 0) {
+            vscode.window.showInformationMessage(`Antigravity: Only HTML files open in preview tabs, not ${skipped.join(', ')}.`);
+        }
+        if (opened) {
+            this._update();
+        }
+    }
+
+    /**
+     * Moves a tab between the editor panel and the preview view, opening the other
+     * one if needed. Both re-render when the tab manager reports the move.
+     */
+    private _moveTab(tabId: string) {
+        const target: PreviewLocation = this._location === 'panel' ? 'view' : 'panel';
+        this._manager.moveTab(tabId, target);
+        vscode.commands.executeCommand(target === 'panel' ? 'antigravity.openPreview' : 'antigravity.previewPanel.focus');
+    }
+
+    private async _selectFile() {
+        const options: vscode.OpenDialogOptions = {
+            canSelectMany: false,
+            openLabel: 'Preview',
+            filters: {
+                'HTML': ['html', 'htm']
+            }
+        };
+
+        const fileUri = await vscode.window.showOpenDialog(options);
+
+        if (fileUri && fileUri[0]) {
+            const document = await vscode.workspace.openTextDocument(fileUri[0]);
+            let activeTab = this._tabs.find(t => t.id === this._activeTabId);
+            if (activeTab?.pinned) {
+                // Pinned tabs keep their page
+                activeTab = this._manager.createTab(this._location);
+                activeTab.mode = 'locked';
+            }
+            if (activeTab) {
+                this._manager.bindTab(activeTab, document);
+                this._update();
+            }
+            await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
+        }
+    }
+
+    public async refresh() {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (activeTab?.mode === 'locked' && activeTab.uri) {
+            // Locked tabs re-read their own file rather than the active editor
+            const document = await vscode.workspace.openTextDocument(activeTab.uri);
+            this._manager.bindTab(activeTab, document);
+            this._update();
+            return;
+        }
+        this._updateActiveTabFromEditor();
+    }
+
+    /**
+     * Shows the active editor's document in the active tab, if it follows the editor.
+     * Returns whether the webview is rendered again for it.
+     */
+    private _updateActiveTabFromEditor(): boolean {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== 'html') {
+            return false;
+        }
+
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (activeTab && activeTab.mode === 'follow' && !activeTab.pinned) {
+            this._manager.bindTab(activeTab, editor.document);
+            this._update();
+            return true;
+        }
+        return false;
+    }
+
+    private _updateTabsForDocument(document: vscode.TextDocument) {
+        const key = document.uri.toString();
+        const boundTabs = this._tabs.filter(t => t.uri?.toString() === key && t.snapshot === undefined);
+        if (boundTabs.length === 0) {
+            return;
+        }
+
+        let needsUpdate = false;
+        boundTabs.forEach(tab => {
+            const previousContent = tab.content;
+            this._manager.bindTab(tab, document);
+
+            // Only the tabs in the panes are rendered, the others keep their content for later.
+            // Served pages reload themselves through the live-reload client instead.
+            const pane: Pane | undefined = tab.id === this._activeTabId ? 'primary'
+                : tab.id === this._getCompareTab()?.id ? 'compare' : undefined;
+            if (!pane || previousContent === tab.content || this._findServer(document.uri)) {
+                return;
+            }
+            if (pane === 'primary') {
+                // Whether only CSS changed shows once includes and templates are expanded
+                const content = tab.content;
+                this._queuePageUpdate(async () => {
+                    if (!await this._hotSwapStyles(previousContent, content, document.uri) && !this._patchPage(tab, previousContent, pane)) {
+                        this._update();
+                    }
+                    return undefined;
+                });
+                return;
+            }
+            needsUpdate = needsUpdate || !this._patchPage(tab, previousContent, pane);
+        });
+
+        if (needsUpdate) {
+            this._update();
+        }
+    }
+
+    /**
+     * Brings the running page of a pane up to date with the tab's new content without
+     * reloading it: the page gets the new render and patches what changed in its DOM.
+     * Returns false when a full render is needed, because the <head>, a script or an
+     * inline event handler changed (their hashes are part of the Content-Security-Policy).
+     */
+    private _patchPage(tab: PreviewTab, previousContent: string, pane: Pane): boolean {
+        const rendered = this._renderedPages.get(pane);
+        if (!tab.uri || rendered?.tabId !== tab.id
+            || this._getReloadSignature(previousContent) !== this._getReloadSignature(tab.content)) {
+            return false;
+        }
+
+        const documentUri = tab.uri;
+        const content = tab.content;
+        const version = this._renderVersion;
+        this._queuePageUpdate(async () => {
+            tab.dependencies.clear();
+            const template = await this._templates.render(content, documentUri);
+            const missing: MissingResource[] = [];
+            const html = await this._renderDocument(template, documentUri, {
+                interactive: pane === 'primary',
+                scrollSync: pane === 'primary' && tab.scrollSync,
+                dependencies: tab.dependencies,
+                missing: missing,
+                sandbox: this._getSandbox(tab),
+                patch: true
+            });
+            tab.problems = await this._validator.validate(template.html, documentUri, template.lines, missing);
+            this._updateTabBar();
+
+            // Earlier patches changed the page since it was rendered
+            const previous = this._renderedPages.get(pane);
+            if (!previous || version !== this._renderVersion) {
+                return undefined;
+            }
+            this._renderedPages.set(pane, { tabId: tab.id, html: html });
+            return { command: 'patchDocument', pane: pane === 'compare' ? 'compare' : undefined, previous: previous.html, html: html };
+        });
+        return true;
+    }
+
+    /**
+     * What the running page cannot be patched past: the <head> apart from the CSS of
+     * its <style> blocks, the scripts and the inline event handlers.
+     */
+    private _getReloadSignature(html: string): string {
+        const elements = collectElements(parse(this._splitStyleBlocks(html).markup));
+        const head = elements.find(e => e.tagName === 'head');
+        const scripts = elements.filter(e => e.tagName === 'script').map(e => serializeOuter(e));
+        return JSON.stringify([head ? serialize(head) : '', scripts, getEventHandlerHashes(html).sort()]);
+    }
+
+    /**
+     * Pushes changed <style> blocks to the running page when nothing but their CSS
+     * changed. Returns false when the markup changed too and a full render is needed.
+     * The blocks are compared with includes and templates expanded, as the page has them.
+     */
+    private async _hotSwapStyles(previousContent: string, content: string, documentUri: vscode.Uri): Promise<boolean> {
+        // The current content last, its template problems are the ones to keep
+        const previous = await this._templates.render(previousContent, documentUri);
+        const current = await this._templates.render(content, documentUri);
+        const before = this._splitStyleBlocks(previous.html);
+        const after = this._splitStyleBlocks(current.html);
+        if (before.markup !== after.markup || before.styles.length !== after.styles.length) {
+            return false;
+        }
+
+        const rewriter = this._createRewriter();
+        after.styles.forEach((css, index) => {
+            if (css !== before.styles[index]) {
+                const update = rewriter.rewriteStyleBlock(css, current.html, documentUri);
+                this._queuePageUpdate(async () => ({ command: 'updateStyle', id: `inline-${index}`, css: await update }));
+            }
+        });
+        return true;
+    }
+
+    /**
+     * Posts a message to the running pages once the updates queued before it are posted.
+     * It is dropped when the webview got new HTML in the meantime, which is newer.
+     */
+    private _queuePageUpdate(createMessage: () => Promise<{ command: string; [key: string]: unknown } | undefined>) {
+        const version = this._renderVersion;
+        this._pageUpdates = this._pageUpdates
+            .then(() => version === this._renderVersion ? createMessage() : undefined)
+            .then(message => {
+                if (message && version === this._renderVersion) {
+                    this._postToPreview(message);
+                }
+            })
+            .catch(error => console.error('Failed to update the preview', error));
+    }
+
+    private _splitStyleBlocks(html: string): { markup: string; styles: string[] } {
+        const styles: string[] = [];
+        const markup = html.replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, (match, open, css, close) => {
+            styles.push(css);
+            return open + close;
+        });
+        return { markup, styles };
+    }
+
+    /**
+     * Updates the tabs bound to a file that changed on disk while not open in an editor.
+     */
+    private async _updateTabsForFile(uri: vscode.Uri) {
+        const key = uri.toString();
+        const content = await readLocalResource(uri);
+        const boundTabs = this._tabs.filter(t => t.uri?.toString() === key && t.snapshot === undefined);
+        if (boundTabs.length === 0 || content === undefined) {
+            return;
+        }
+
+        boundTabs.forEach(tab => tab.content = content);
+        const isRendered = boundTabs.some(t => t.id === this._activeTabId || t.id === this._getCompareTab()?.id);
+        if (isRendered && !this._findServer(uri)) {
+            this._update();
+        }
+    }
+
+    /**
+     * Refreshes the rendered tabs whose page uses a changed file. Stylesheets of the
+     * active tab are swapped in place (for ones pulled in with @import, the stylesheets
+     * importing them), anything else renders the page again.
+     */
+    private async _updateDependents(uri: vscode.Uri) {
+        const key = uri.toString();
+        if (this._findServer(uri)) {
+            return;
+        }
+
+        let needsUpdate = false;
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        const kind = activeTab?.dependencies.get(key);
+        const rendered = this._renderedPages.get('primary');
+        if (kind === 'stylesheet' && activeTab && rendered?.tabId === activeTab.id
+            && !rendered.html.includes(`data-ag-style="${escapeAttribute(key)}"`)) {
+            this._swapImportingStyles(activeTab, rendered.html);
+        } else if (kind === 'stylesheet') {
+            const css = await readLocalResource(uri);
+            if (css !== undefined) {
+                const update = this._createRewriter().rewriteCss(css, uri);
+                this._queuePageUpdate(async () => ({ command: 'updateStyle', id: key, css: await update }));
+            } else {
+                needsUpdate = true;
+            }
+        } else if (kind) {
+            needsUpdate = true;
+        }
+
+        const compareTab = this._getCompareTab();
+        if (compareTab && compareTab.snapshot === undefined && compareTab.dependencies.has(key)) {
+            needsUpdate = true;
+        }
+
+        if (needsUpdate) {
+            this._update();
+        }
+    }
+
+    /**
+     * Swaps every stylesheet of the active tab's page that uses @import, after a
+     * stylesheet it pulls in changed.
+     */
+    private _swapImportingStyles(tab: PreviewTab, html: string) {
+        const documentUri = tab.uri;
+        if (!documentUri) {
+            return;
+        }
+        const rewriter = this._createRewriter();
+        // Style blocks are numbered with includes and templates expanded, as the page has them
+        const expanded = this._templates.render(tab.content, documentUri).then(template => template.html);
+        const ids = new Set([...html.matchAll(/<style data-ag-style="([^"]*)"/g)].map(match => match[1].replace(/&quot;/g, '"').replace(/&amp;/g, '&')));
+        ids.forEach(id => {
+            const block = /^inline-(\d+)$/.exec(id);
+            const update = (block ? expanded.then(content => this._splitStyleBlocks(content).styles[Number(block[1])]) : readLocalResource(vscode.Uri.parse(id))).then(async css => {
+                if (css === undefined || !/@import/i.test(css)) {
+                    return undefined;
+                }
+                return block ? rewriter.rewriteStyleBlock(css, await expanded, documentUri) : rewriter.rewriteCss(css, vscode.Uri.parse(id));
+            });
+            this._queuePageUpdate(async () => {
+                const css = await update;
+                return css === undefined ? undefined : { command: 'updateStyle', id: id, css: css };
+            });
+        });
+    }
+
+    /**
+     * Whether a change to the file can affect any tab: it is bound to a tab, used by
+     * a rendered page or served to one.
+     */
+    private _isWatched(uri: vscode.Uri): boolean {
+        const key = uri.toString();
+        return this._tabs.some(t => t.uri?.toString() === key || t.dependencies.has(key))
+            || [...this._servers.values()].some(s => s.contains(uri));
+    }
+
+    private _postToPreview(message: { command: string; [key: string]: unknown }) {
+        this._webview.postMessage({ ...message, target: 'preview' });
+    }
+
+    /**
+     * Renders the webview anew. Callers do not wait for it, so a render that fails is
+     * reported in the preview console and shown in place of the preview.
+     */
+    private async _update() {
+        this._manager.saveState();
+        const version = ++this._renderVersion;
+        const context: RenderContext = { nonce: createNonce(), trusted: false, eventHandlerHashes: new Set<string>(), pages: new Map() };
+        let html: string;
+        try {
+            html = await this._getHtmlForWebview(context);
+        } catch (error) {
+            if (version !== this._renderVersion) {
+                return;
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            this._console.log(this._location, this._tabs.find(t => t.id === this._activeTabId)?.title || 'Preview', {
+                level: 'error',
+                message: `Failed to render the preview: ${message}`,
+                stack: error instanceof Error ? error.stack : undefined
+            });
+            html = this._getErrorHtml(message);
+            context.pages.clear();
+        }
+        if (version !== this._renderVersion) {
+            return;
+        }
+        this._renderedPages = context.pages;
+        this._pendingFragment = undefined;
+        this._loadedTabId = undefined;
+        this._webview.html = html;
+        this._retainProblems();
+        this._manager.notifyTabsUpdated();
+    }
+
+    // Problems of documents no tab shows anymore are out of date
+    private _retainProblems() {
+        const previewed = this._manager.tabs.flatMap(t => t.snapshot === undefined && t.uri ? [t.uri] : []);
+        this._validator.retain(previewed);
+        this._templates.retain(previewed);
+    }
+
+    private _isServerMode(): boolean {
+        return vscode.workspace.getConfiguration('antigravity').get<string>('previewMode') === 'server';
+    }
+
+    private _findServer(uri: vscode.Uri): PreviewServer | undefined {
+        if (!this._isServerMode()) {
+            return undefined;
+        }
+        return [...this._servers.values()].find(s => s.contains(uri));
+    }
+
+    private async _getServer(documentUri: vscode.Uri): Promise<PreviewServer> {
+        const root = vscode.workspace.getWorkspaceFolder(documentUri)?.uri
+            ?? vscode.Uri.joinPath(documentUri, '..');
+        const key = root.toString();
+
+        const existing = this._servers.get(key);
+        if (existing) {
+            return existing;
+        }
+
+        const server = new PreviewServer(root, async uri => getMockScript(await this._mocks.getRoutes(uri), ''),
+            async (html, uri) => (await this._templates.render(html, uri)).html);
+        this._servers.set(key, server);
+        const preferredPort = vscode.workspace.getConfiguration('antigravity').get<number>('server.port') || 0;
+        try {
+            await server.start(preferredPort).catch(error => {
+                // The preferred port is taken (e.g. by another folder's server), pick a free one
+                console.error(`Failed to start preview server on port ${preferredPort}`, error);
+                return server.start(0);
+            });
+        } catch (error) {
+            this._servers.delete(key);
+            throw error;
+        }
+
+        // Map the loopback ports into the webview so it works in remote setups too
+        this._webview.options = {
+            ...this._webview.options,
+            portMapping: [...this._servers.values()].map(s => ({
+                webviewPort: s.port,
+                extensionHostPort: s.port
+            }))
+        };
+        return server;
+    }
+
+    private _notifyServers(uri: vscode.Uri) {
+        // Also servers started for a browser, when previews are not served
+        this._servers.forEach(server => server.contains(uri) && server.notifyChange(uri));
+    }
+
+    private _disposeServers() {
+        this._servers.forEach(server => server.dispose());
+        this._servers.clear();
+    }
+
+    private _getTabsHtml(): string {
+        return this._tabs.map(tab => {
+            const isActive = tab.id === this._activeTabId;
+            return `
+                <div class="tab ${isActive ? 'active' : ''} ${tab.pinned ? 'pinned' : ''}" data-tab-id="${escapeHtml(tab.id)}" data-action="switchTab"
+                     data-pinned="${tab.pinned}" data-has-file="${!!tab.uri}" draggable="true">
+                    ${tab.pinned ? `<button class="tab-mode" data-action="togglePin" title="Pinned (click to unpin)">📌</button>`
+                        : tab.snapshot !== undefined ? `<span class="tab-mode" title="Snapshot (read-only)">📷</span>` : `
+                    <button class="tab-mode" data-action="toggleTabMode"
+                            title="${tab.mode === 'locked' ? 'Locked to file (click to follow active editor)' : 'Following active editor (click to lock to file)'}">${tab.mode === 'locked' ? '🔒' : '🔓'}</button>`}
+                    <span class="tab-title">${escapeHtml(tab.title || 'Untitled')}</span>
+                    ${tab.problems > 0 ? `<span class="tab-problems" title="${tab.problems} markup problem(s), see the Problems panel">⚠ ${tab.problems}</span>` : ''}
+                    <button class="tab-mode" data-action="moveTab"
+                            title="${this._location === 'panel' ? 'Move to the preview view' : 'Move to the editor panel'}">⇄</button>
+                    ${this._tabs.length > 1 && !tab.pinned ? `
+                        <button class="tab-close" data-action="closeTab">×</button>
+                    ` : ''}
+                </div>
+            `;
+        }).join('');
+    }
+
+    private _getCompareOptionsHtml(): string {
+        return this._tabs
+            .filter(t => t.id !== this._activeTabId)
+            .map(t => `<option value="${t.id}" ${t.id === this._getCompareTab()?.id ? 'selected' : ''}>${escapeHtml(t.title || 'Untitled')}</option>`)
+            .join('');
+    }
+
+    /**
+     * Updates the tab bar of the chrome without rendering the webview again, for
+     * changes that leave the pages shown as they are.
+     */
+    private _updateTabBar() {
+        this._manager.saveState();
+        this._webview.postMessage({ command: 'setTabs', tabs: this._getTabsHtml(), compareOptions: this._getCompareOptionsHtml() });
+        this._retainProblems();
+        this._manager.notifyTabsUpdated();
+    }
+
+    private async _getHtmlForWebview(context: RenderContext): Promise<string> {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+
+        if (!activeTab) {
+            return this._getEmptyHtml();
+        }
+
+        // Content HTML, with the scripts of the pages it replaces forgotten
+        this._console.reset(this._location);
+        const isServed = this._isServed(activeTab);
+        const contentHtml = await this._getPaneContent(activeTab, 'primary', context);
+
+        // Second pane of a split layout
+        const compareTab = this._getCompareTab();
+        const compareHtml = compareTab ? await this._getPaneContent(compareTab, 'compare', context) : '';
+        const compareOptions = this._getCompareOptionsHtml();
+
+        // Tab Bar HTML, after rendering so it shows the problems just found
+        const tabsHtml = this._getTabsHtml();
+
+        // Scripts only run with the nonce: the chrome's own, the preview's in every page and
+        // those of trusted pages. Served pages come from the preview servers.
+        const activeSandbox = this._getSandbox(activeTab);
+        const contentSecurityPolicy = buildContentSecurityPolicy({
+            cspSource: this._webview.cspSource,
+            nonce: context.nonce,
+            trusted: context.trusted,
+            eventHandlerHashes: [...context.eventHandlerHashes],
+            frameSources: [...this._servers.values()].map(server => new URL(server.urlFor(server.root)).origin)
+        });
+
+        return `<!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${escapeHtml(contentSecurityPolicy)}">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <style>
+                    * {
+                        margin: 0;
+                        padding: 0;
+                        box-sizing: border-box;
+                    }
+                    body {
+                        font-family: 'Segoe UI', sans-serif;
+                        background: #1e1e1e;
+                        color: #ccc;
+                        display: flex;
+                        flex-direction: column;
+                        height: 100vh;
+                        overflow: hidden;
+                    }
+                    .header {
+                        display: flex;
+                        justify-content: space-between;
+                        align-items: center;
+                        background: #252526;
+                        border-bottom: 1px solid #3e3e42;
+                        padding: 4px 8px;
+                    }
+                    .tab-bar {
+                        display: flex;
+                        overflow-x: auto;
+                        flex: 1;
+                    }
+                    .tab {
+                        display: flex;
+                        align-items: center;
+                        gap: 8px;
+                        padding: 6px 12px;
+                        background: #2d2d30;
+                        border-right: 1px solid #3e3e42;
+                        cursor: pointer;
+                        user-select: none;
+                        white-space: nowrap;
+                        transition: background 0.2s;
+                    }
+                    .tab:hover {
+                        background: #37373d;
+                    }
+                    .tab.active {
+                        background: #1e1e1e;
+                        border-bottom: 2px solid #8a2be2;
+                    }
+                    .tab-title {
+                        font-size: 13px;
+                    }
+                    .tab-close {
+                        background: none;
+                        border: none;
+                        color: #858585;
+                        font-size: 18px;
+                        cursor: pointer;
+                        padding: 0;
+                        width: 18px;
+                        height: 18px;
+                        display: flex;
+                        align-items: center;
+                        justify-content: center;
+                        border-radius: 3px;
+                    }
+                    .tab-close:hover {
+                        background: rgba(255, 255, 255, 0.1);
+                        color: #fff;
+                    }
+                    .tab-mode {
+                        background: none;
+                        border: none;
+                        cursor: pointer;
+                        font-size: 11px;
+                        opacity: 0.5;
+                        padding: 0;
+                    }
+                    .tab-mode:hover {
+                        opacity: 1;
+                    }
+                    .tab-problems {
+                        color: #cca700;
+                        font-size: 11px;
+                    }
+                    .tab.drop-before {
+                        box-shadow: inset 2px 0 0 #8a2be2;
+                    }
+                    .tab.drop-after {
+                        box-shadow: inset -2px 0 0 #8a2be2;
+                    }
+                    .tab-bar.drop-files {
+                        outline: 1px dashed #8a2be2;
+                        outline-offset: -1px;
+                    }
+                    .tab-menu {
+                        position: fixed;
+                        z-index: 1000;
+                        min-width: 200px;
+                        padding: 4px 0;
+                        background: #252526;
+                        border: 1px solid #454545;
+                        border-radius: 4px;
+                        box-shadow: 0 2px 8px rgba(0, 0, 0, 0.5);
+                    }
+                    .tab-menu[hidden] {
+                        display: none;
+                    }
+                    .tab-menu button {
+                        display: block;
+                        width: 100%;
+                        padding: 4px 16px;
+                        background: none;
+                        border: none;
+                        color: #ccc;
+                        font-size: 13px;
+                        text-align: left;
+                        cursor: pointer;
+                    }
+                    .tab-menu button:hover:not(:disabled) {
+                        background: #04395e;
+                        color: #fff;
+                    }
+                    .tab-menu button:disabled {
+                        opacity: 0.4;
+                        cursor: default;
+                    }
+                    .tab-menu hr {
+                        margin: 4px 0;
+                        border: none;
+                        border-top: 1px solid #454545;
+                    }
+                    .add-tab-btn {
+                        background: none;
+                        border: none;
+                        color: #ccc;
+                        cursor: pointer;
+                        padding: 6px 12px;
+                        font-size: 16px;
+                        transition: background 0.2s;
+                    }
+                    .add-tab-btn:hover {
+                        background: #37373d;
+                    }
+                    .toolbar {
+                        display: flex;
+                        align-items: center;
+                        gap: 2px;
+                    }
+                    .toolbar-btn {
+                        background: none;
+                        border: none;
+                        border-radius: 3px;
+                        color: #858585;
+                        cursor: pointer;
+                        padding: 4px 8px;
+                        font-size: 14px;
+                    }
+                    .toolbar-btn:hover {
+                        background: #37373d;
+                        color: #fff;
+                    }
+                    .toolbar-btn.active {
+                        color: #b57edc;
+                    }
+                    .nav-bar {
+                        display: flex;
+                        align-items: center;
+                        gap: 2px;
+                        background: #252526;
+                        border-bottom: 1px solid #3e3e42;
+                        padding: 2px 8px;
+                    }
+                    .nav-bar .toolbar-btn:disabled {
+                        opacity: 0.4;
+                        cursor: default;
+                        background: none;
+                    }
+                    .address-bar {
+                        flex: 1;
+                        min-width: 0;
+                        background: #3c3c3c;
+                        border: 1px solid #3e3e42;
+                        border-radius: 2px;
+                        color: #ccc;
+                        font-size: 12px;
+                        padding: 3px 6px;
+                        margin-left: 4px;
+                    }
+                    .address-bar:focus {
+                        outline: 1px solid #8a2be2;
+                    }
+                    .content-area {
+                        flex: 1;
+                        display: flex;
+                        overflow: hidden;
+                        min-height: 0;
+                    }
+                    .content-area.layout-stacked {
+                        flex-direction: column;
+                    }
+                    .pane {
+                        flex: 1;
+                        min-width: 0;
+                        min-height: 0;
+                        overflow: hidden;
+                        background: white;
+                        position: relative;
+                    }
+                    .pane + .pane {
+                        border-left: 2px solid #3e3e42;
+                    }
+                    .layout-stacked .pane + .pane {
+                        border-left: none;
+                        border-top: 2px solid #3e3e42;
+                    }
+                    .pane-label {
+                        position: absolute;
+                        top: 0;
+                        right: 0;
+                        z-index: 1;
+                        padding: 2px 8px;
+                        font-size: 11px;
+                        color: #ccc;
+                        background: rgba(37, 37, 38, 0.85);
+                        border-bottom-left-radius: 3px;
+                        pointer-events: none;
+                    }
+                    .compare-placeholder {
+                        display: flex;
+                        align-items: center;
+                        justify-content: center;
+                        height: 100%;
+                        background: #1e1e1e;
+                        color: #888;
+                        font-size: 13px;
+                        padding: 20px;
+                        text-align: center;
+                    }
+                    .pane.emulated {
+                        background: #1e1e1e;
+                        overflow: auto;
+                    }
+                    .viewport-frame {
+                        width: 100%;
+                        height: 100%;
+                    }
+                    .pane.emulated .viewport-frame {
+                        background: white;
+                        box-shadow: 0 0 0 1px #3e3e42, 0 4px 16px rgba(0, 0, 0, 0.5);
+                        transform-origin: top left;
+                        margin: 16px auto;
+                    }
+                    .viewport-controls {
+                        display: flex;
+                        align-items: center;
+                        gap: 4px;
+                        margin-right: 4px;
+                        font-size: 12px;
+                    }
+                    .viewport-controls select,
+                    .viewport-controls input {
+                        background: #3c3c3c;
+                        border: 1px solid #3e3e42;
+                        border-radius: 2px;
+                        color: #ccc;
+                        font-size: 12px;
+                        padding: 2px 4px;
+                    }
+                    .viewport-controls input {
+                        width: 56px;
+                    }
+                    .viewport-size {
+                        display: flex;
+                        align-items: center;
+                        gap: 2px;
+                    }
+                    .viewport-scale {
+                        color: #858585;
+                        min-width: 36px;
+                    }
+                    .split-controls {
+                        display: flex;
+                        align-items: center;
+                        gap: 2px;
+                        margin-right: 4px;
+                    }
+                    .split-controls select {
+                        background: #3c3c3c;
+                        border: 1px solid #3e3e42;
+                        border-radius: 2px;
+                        color: #ccc;
+                        font-size: 12px;
+                        padding: 2px 4px;
+                        max-width: 160px;
+                    }
+                    .inspector-bar {
+                        display: none;
+                        max-height: 30%;
+                        overflow-y: auto;
+                        background: #252526;
+                        border-top: 1px solid #3e3e42;
+                        padding: 4px 8px;
+                        font-size: 12px;
+                    }
+                    .inspector-bar.visible {
+                        display: block;
+                    }
+                    .inspector-element {
+                        color: #b57edc;
+                        font-family: monospace;
+                        margin-bottom: 2px;
+                    }
+                    .inspector-rule {
+                        display: flex;
+                        justify-content: space-between;
+                        gap: 16px;
+                        padding: 2px 0;
+                        cursor: pointer;
+                        font-family: monospace;
+                    }
+                    .inspector-rule:hover {
+                        color: #fff;
+                    }
+                    .inspector-source {
+                        color: #858585;
+                    }
+                    iframe {
+                        width: 100%;
+                        height: 100%;
+                        border: none;
+                    }
+                </style>
+            </head>
+            <body>
+                <div class="header">
+                    <div class="tab-bar">
+                        ${tabsHtml}
+                    </div>
+                    <div class="toolbar">
+                        <div class="viewport-controls">
+                            <select class="viewport-preset" data-change="selectViewportPreset" title="Viewport">
+                                ${VIEWPORT_PRESETS.map(p => `<option value="${p.id}">${escapeHtml(p.label)}${p.width ? ` (${p.width}×${p.height})` : ''}</option>`).join('')}
+                                <option value="custom">Custom</option>
+                            </select>
+                            <span class="viewport-size">
+                                <input type="number" class="viewport-width" min="50" max="10000" data-change="setViewportSize" title="Width">
+                                ×
+                                <input type="number" class="viewport-height" min="50" max="10000" data-change="setViewportSize" title="Height">
+                            </span>
+                            <button class="toolbar-btn viewport-rotate" data-action="rotateViewport" title="Rotate">⟳</button>
+                            <button class="toolbar-btn viewport-fit" data-action="toggleViewportFit" title="Zoom to fit">⤢</button>
+                            <span class="viewport-scale"></span>
+                        </div>
+                        <div class="split-controls">
+                            <select class="layout-select" data-change="setLayout" title="Layout">
+                                <option value="single" ${this._layout === 'single' ? 'selected' : ''}>Single</option>
+                                <option value="side-by-side" ${this._layout === 'side-by-side' ? 'selected' : ''}>Side by side</option>
+                                <option value="stacked" ${this._layout === 'stacked' ? 'selected' : ''}>Stacked</option>
+                            </select>
+                            ${compareTab ? `
+                            <select class="compare-select" data-change="setCompareTab" title="Compare with">${compareOptions}</select>
+                            <button class="toolbar-btn lock-scroll-btn ${this._lockScroll ? 'active' : ''}" data-action="toggleLockScroll"
+                                    title="Lock scrolling between panes">⛓</button>` : ''}
+                            <button class="toolbar-btn" data-action="snapshotTab" title="Snapshot this tab for comparison">📷</button>
+                        </div>
+                        <button class="toolbar-btn" data-action="exportTab" title="Export as standalone HTML">⭳</button>
+                        ${!isServed ? `<button class="toolbar-btn inspect-btn ${this._inspectMode ? 'active' : ''}" data-action="toggleInspect"
+                                title="Inspect element">⌖</button>
+                        <button class="toolbar-btn audit-btn ${this._auditMode ? 'active' : ''}" data-action="toggleAudit"
+                                title="Accessibility audit">♿</button>` : ''}
+                        <button class="toolbar-btn ${activeTab.scrollSync ? 'active' : ''}" data-action="toggleScrollSync"
+                                title="${activeTab.scrollSync ? 'Disable' : 'Enable'} scroll sync for this tab">⇅</button>
+                        ${activeTab.snapshot === undefined ? `<button class="toolbar-btn ${activeSandbox === 'untrusted' ? 'active' : ''}" data-action="toggleSandbox"
+                                title="${!vscode.workspace.isTrusted
+                                    ? 'Restricted Mode: scripts of the page are blocked until the workspace is trusted'
+                                    : activeSandbox === 'trusted'
+                                        ? 'Trusted: scripts of the page run (click to block them)'
+                                        : 'Untrusted: scripts of the page are blocked (click to allow them)'}">🛡</button>` : ''}
+                        <button class="add-tab-btn" data-action="addTab" title="Add new tab">+</button>
+                    </div>
+                </div>
+                <div class="nav-bar">
+                    <button class="toolbar-btn" data-action="navigateHistory" data-delta="-1" title="Back"
+                            ${activeTab.historyIndex > 0 ? '' : 'disabled'}>←</button>
+                    <button class="toolbar-btn" data-action="navigateHistory" data-delta="1" title="Forward"
+                            ${activeTab.historyIndex < activeTab.history.length - 1 ? '' : 'disabled'}>→</button>
+                    <button class="toolbar-btn" data-action="reloadTab" title="Reload">↻</button>
+                    <input class="address-bar" type="text" spellcheck="false" value="${escapeHtml(this._getAddress(activeTab))}"
+                           placeholder="Workspace-relative path, e.g. index.html#section" title="Ctrl/Cmd+click a link to open it in a new tab"
+                           ${activeTab.snapshot !== undefined ? 'disabled' : ''}>
+                </div>
+                <div class="content-area layout-${this._layout}">
+                    <div class="pane" data-pane="primary">
+                        <div class="viewport-frame">
+                            ${contentHtml}
+                        </div>
+                    </div>
+                    ${this._layout !== 'single' ? `
+                    <div class="pane" data-pane="compare">
+                        ${compareTab ? `<div class="pane-label">${escapeHtml(compareTab.title || 'Untitled')}</div>` : ''}
+                        <div class="viewport-frame">
+                            ${compareTab ? compareHtml : '<div class="compare-placeholder">Add a tab or take a snapshot (📷) to compare.</div>'}
+                        </div>
+                    </div>` : ''}
+                </div>
+                <div class="inspector-bar"></div>
+                <div class="tab-menu" hidden>
+                    <button data-action="tabMenu" data-menu-action="duplicate">Duplicate</button>
+                    <button data-action="tabMenu" data-menu-action="togglePin" class="pin-item">Pin</button>
+                    <hr>
+                    <button data-action="tabMenu" data-menu-action="close">Close</button>
+                    <button data-action="tabMenu" data-menu-action="closeOthers">Close Others</button>
+                    <hr>
+                    <button data-action="tabMenu" data-menu-action="revealInExplorer" data-needs-file>Reveal in Explorer</button>
+                    <button data-action="tabMenu" data-menu-action="openSource" data-needs-file>Open Source File</button>
+                    <button data-action="tabMenu" data-menu-action="copyPath" data-needs-file>Copy Path</button>
+                    <button data-action="tabMenu" data-menu-action="openExternal" data-needs-file>Open in External Browser</button>
+                </div>
+                <script nonce="${context.nonce}">
+                    const vscode = acquireVsCodeApi();
+
+                    // Controls name their function in data-action (clicks) and data-change (changes),
+                    // the Content-Security-Policy does not allow inline event handlers
+                    document.addEventListener('click', function(e) {
+                        const control = e.target.closest('[data-action]');
+                        hideTabMenu();
+                        if (!control || control.disabled) {
+                            return;
+                        }
+                        const tab = control.closest('[data-tab-id]');
+                        const tabId = tab ? tab.dataset.tabId : '';
+                        switch (control.dataset.action) {
+                            case 'switchTab': switchTab(tabId); break;
+                            case 'toggleTabMode': toggleTabMode(tabId); break;
+                            case 'moveTab': moveTab(tabId); break;
+                            case 'closeTab': closeTab(tabId); break;
+                            case 'togglePin': runTabAction(tabId, 'togglePin'); break;
+                            case 'tabMenu': runTabAction(tabId, control.dataset.menuAction); break;
+                            case 'rotateViewport': rotateViewport(); break;
+                            case 'toggleViewportFit': toggleViewportFit(); break;
+                            case 'toggleLockScroll': toggleLockScroll(); break;
+                            case 'snapshotTab': snapshotTab(); break;
+                            case 'exportTab': exportTab(); break;
+                            case 'toggleInspect': toggleInspect(); break;
+                            case 'toggleAudit': toggleAudit(); break;
+                            case 'toggleScrollSync': toggleScrollSync(); break;
+                            case 'toggleSandbox': toggleSandbox(); break;
+                            case 'addTab': addTab(); break;
+                            case 'navigateHistory': navigateHistory(Number(control.dataset.delta)); break;
+                            case 'reloadTab': reloadTab(); break;
+                            case 'selectFile': selectFile(); break;
+                        }
+                    });
+
+                    document.addEventListener('change', function(e) {
+                        const control = e.target.closest('[data-change]');
+                        if (!control) {
+                            return;
+                        }
+                        switch (control.dataset.change) {
+                            case 'selectViewportPreset': selectViewportPreset(control.value); break;
+                            case 'setViewportSize': setViewportSize(); break;
+                            case 'setLayout': setLayout(control.value); break;
+                            case 'setCompareTab': setCompareTab(control.value); break;
+                        }
+                    });
+
+                    document.querySelector('.address-bar').addEventListener('keydown', function(e) {
+                        if (e.key === 'Enter') {
+                            navigateTo(this.value);
+                        }
+                    });
+                    
+                    function switchTab(tabId) {
+                        vscode.postMessage({ command: 'switchTab', tabId: tabId });
+                    }
+                    
+                    function closeTab(tabId) {
+                        vscode.postMessage({ command: 'closeTab', tabId: tabId });
+                    }
+                    
+                    function navigateTo(address) {
+                        vscode.postMessage({ command: 'navigateTo', address: address });
+                    }
+                    
+                    function navigateHistory(delta) {
+                        vscode.postMessage({ command: 'navigateHistory', delta: delta });
+                    }
+                    
+                    function reloadTab() {
+                        vscode.postMessage({ command: 'reload' });
+                    }
+                    
+                    function moveTab(tabId) {
+                        vscode.postMessage({ command: 'moveTab', tabId: tabId });
+                    }
+                    
+                    function toggleTabMode(tabId) {
+                        vscode.postMessage({ command: 'toggleTabMode', tabId: tabId });
+                    }
+
+                    function runTabAction(tabId, action) {
+                        vscode.postMessage({ command: 'tabAction', tabId: tabId, action: action });
+                    }
+
+                    // Context menu of the tabs. It carries the tab's id while open, so its
+                    // entries are handled like the buttons inside a tab.
+                    const tabMenu = document.querySelector('.tab-menu');
+
+                    document.addEventListener('contextmenu', function(e) {
+                        const tab = e.target.closest('.tab');
+                        if (!tab) {
+                            hideTabMenu();
+                            return;
+                        }
+                        e.preventDefault();
+                        tabMenu.dataset.tabId = tab.dataset.tabId;
+                        tabMenu.querySelector('.pin-item').textContent = tab.dataset.pinned === 'true' ? 'Unpin' : 'Pin';
+                        tabMenu.querySelectorAll('[data-needs-file]').forEach(function(item) {
+                            item.disabled = tab.dataset.hasFile !== 'true';
+                        });
+                        tabMenu.hidden = false;
+                        // Keep the menu inside the window
+                        tabMenu.style.left = Math.min(e.clientX, window.innerWidth - tabMenu.offsetWidth - 4) + 'px';
+                        tabMenu.style.top = Math.min(e.clientY, window.innerHeight - tabMenu.offsetHeight - 4) + 'px';
+                    });
+
+                    document.addEventListener('keydown', function(e) {
+                        if (e.key === 'Escape') {
+                            hideTabMenu();
+                        }
+                    });
+                    window.addEventListener('blur', hideTabMenu);
+                    // The tab commands apply to the preview used last
+                    window.addEventListener('focus', function() {
+                        vscode.postMessage({ command: 'focus' });
+                    });
+
+                    function hideTabMenu() {
+                        tabMenu.hidden = true;
+                    }
+
+                    // Tabs are reordered by dragging them; files dragged from the Explorer
+                    // (holding Shift, to drop them into the webview) open in new tabs
+                    const tabBar = document.querySelector('.tab-bar');
+                    const TAB_TYPE = 'application/x-antigravity-tab';
+                    const URI_TYPES = ['application/vnd.code.uri-list', 'text/uri-list'];
+
+                    tabBar.addEventListener('dragstart', function(e) {
+                        const tab = e.target.closest('.tab');
+                        if (tab) {
+                            e.dataTransfer.setData(TAB_TYPE, tab.dataset.tabId);
+                            e.dataTransfer.effectAllowed = 'move';
+                        }
+                    });
+
+                    tabBar.addEventListener('dragover', function(e) {
+                        const types = Array.from(e.dataTransfer.types);
+                        clearDropMarks();
+                        if (types.indexOf(TAB_TYPE) !== -1) {
+                            e.preventDefault();
+                            e.dataTransfer.dropEffect = 'move';
+                            const target = dropTarget(e);
+                            if (target) {
+                                target.tab.classList.add(target.after ? 'drop-after' : 'drop-before');
+                            }
+                        } else if (URI_TYPES.some(function(type) { return types.indexOf(type) !== -1; })) {
+                            e.preventDefault();
+                            e.dataTransfer.dropEffect = 'copy';
+                            tabBar.classList.add('drop-files');
+                        }
+                    });
+
+                    tabBar.addEventListener('dragleave', function(e) {
+                        if (!tabBar.contains(e.relatedTarget)) {
+                            clearDropMarks();
+                        }
+                    });
+                    document.addEventListener('dragend', clearDropMarks);
+
+                    tabBar.addEventListener('drop', function(e) {
+                        e.preventDefault();
+                        clearDropMarks();
+                        const tabId = e.dataTransfer.getData(TAB_TYPE);
+                        if (tabId) {
+                            const target = dropTarget(e);
+                            let before = target ? target.tab : null;
+                            if (target && target.after) {
+                                before = target.tab.nextElementSibling;
+                                while (before && !before.classList.contains('tab')) {
+                                    before = before.nextElementSibling;
+                                }
+                            }
+                            vscode.postMessage({ command: 'reorderTab', tabId: tabId, beforeTabId: before ? before.dataset.tabId : '' });
+                            return;
+                        }
+                        const uris = URI_TYPES
+                            .map(function(type) { return e.dataTransfer.getData(type); })
+                            .find(function(data) { return !!data; });
+                        if (uris) {
+                            vscode.postMessage({
+                                command: 'openFiles',
+                                uris: uris.split(/\\r?\\n/).filter(function(line) { return line && line[0] !== '#'; })
+                            });
+                        }
+                    });
+
+                    // The tab under the pointer, and whether the drop goes after it
+                    function dropTarget(e) {
+                        const tab = e.target.closest('.tab');
+                        if (!tab) {
+                            return null;
+                        }
+                        const bounds = tab.getBoundingClientRect();
+                        return { tab: tab, after: e.clientX > bounds.left + bounds.width / 2 };
+                    }
+
+                    function clearDropMarks() {
+                        tabBar.classList.remove('drop-files');
+                        tabBar.querySelectorAll('.drop-before, .drop-after').forEach(function(tab) {
+                            tab.classList.remove('drop-before', 'drop-after');
+                        });
+                    }
+                    
+                    function selectFile() {
+                        vscode.postMessage({ command: 'selectFile' });
+                    }
+                    
+                    function addTab() {
+                        vscode.postMessage({ command: 'addTab' });
+                    }
+                    
+                    function toggleScrollSync() {
+                        vscode.postMessage({ command: 'toggleScrollSync' });
+                    }
+                    
+                    function toggleSandbox() {
+                        vscode.postMessage({ command: 'toggleSandbox' });
+                    }
+
+                    // Device emulation, applied here and remembered by the extension per tab.
+                    // The toolbar edits the active tab, the compare pane shows its tab's viewport.
+                    const viewportPresets = ${JSON.stringify(VIEWPORT_PRESETS)};
+                    let viewport = ${JSON.stringify(activeTab.viewport).replace(/</g, '\\u003c')};
+                    const compareViewport = ${JSON.stringify(compareTab?.viewport ?? null).replace(/</g, '\\u003c')};
+
+                    function selectViewportPreset(id) {
+                        const preset = viewportPresets.find(function(p) { return p.id === id; });
+                        viewport.preset = id;
+                        if (preset) {
+                            viewport.width = preset.width;
+                            viewport.height = preset.height;
+                        } else if (!viewport.width || !viewport.height) {
+                            viewport.width = 800;
+                            viewport.height = 600;
+                        }
+                        viewport.rotated = false;
+                        saveViewport();
+                    }
+
+                    function setViewportSize() {
+                        const width = Number(document.querySelector('.viewport-width').value);
+                        const height = Number(document.querySelector('.viewport-height').value);
+                        viewport.preset = 'custom';
+                        viewport.width = Math.max(50, width || 0);
+                        viewport.height = Math.max(50, height || 0);
+                        viewport.rotated = false;
+                        saveViewport();
+                    }
+
+                    function rotateViewport() {
+                        viewport.rotated = !viewport.rotated;
+                        saveViewport();
+                    }
+
+                    function toggleViewportFit() {
+                        viewport.fit = !viewport.fit;
+                        saveViewport();
+                    }
+
+                    function saveViewport() {
+                        applyViewports();
+                        vscode.postMessage({ command: 'setViewport', viewport: viewport });
+                    }
+
+                    function isEmulated(vp) {
+                        return !!vp && vp.preset !== 'responsive' && vp.width > 0 && vp.height > 0;
+                    }
+
+                    function applyViewports() {
+                        const emulated = isEmulated(viewport);
+                        const width = viewport.rotated ? viewport.height : viewport.width;
+                        const height = viewport.rotated ? viewport.width : viewport.height;
+                        document.querySelector('.viewport-preset').value = viewport.preset;
+                        document.querySelector('.viewport-width').value = emulated ? width : '';
+                        document.querySelector('.viewport-height').value = emulated ? height : '';
+                        document.querySelector('.viewport-size').style.visibility = emulated ? 'visible' : 'hidden';
+                        document.querySelector('.viewport-rotate').disabled = !emulated;
+                        document.querySelector('.viewport-fit').disabled = !emulated;
+                        document.querySelector('.viewport-fit').classList.toggle('active', viewport.fit);
+
+                        const scale = applyViewport(document.querySelector('.pane[data-pane="primary"]'), viewport);
+                        document.querySelector('.viewport-scale').textContent = emulated ? Math.round(scale * 100) + '%' : '';
+
+                        const comparePane = document.querySelector('.pane[data-pane="compare"]');
+                        if (comparePane) {
+                            applyViewport(comparePane, compareViewport);
+                        }
+                    }
+
+                    function applyViewport(pane, vp) {
+                        const frame = pane.querySelector('.viewport-frame');
+                        const emulated = isEmulated(vp);
+                        pane.classList.toggle('emulated', emulated);
+
+                        if (!emulated) {
+                            frame.style.width = '';
+                            frame.style.height = '';
+                            frame.style.transform = '';
+                            frame.style.marginBottom = '';
+                            frame.style.marginLeft = '';
+                            return 1;
+                        }
+
+                        const width = vp.rotated ? vp.height : vp.width;
+                        const height = vp.rotated ? vp.width : vp.height;
+                        const scale = vp.fit
+                            ? Math.min(1, (pane.clientWidth - 32) / width, (pane.clientHeight - 32) / height)
+                            : 1;
+                        frame.style.width = width + 'px';
+                        frame.style.height = height + 'px';
+                        frame.style.transform = 'scale(' + scale + ')';
+                        // Transforms do not affect layout, so give back the space the scaled frame does not use
+                        frame.style.marginBottom = (16 - height * (1 - scale)) + 'px';
+                        frame.style.marginLeft = Math.max(16, (pane.clientWidth - width * scale) / 2) + 'px';
+                        return scale;
+                    }
+
+                    window.addEventListener('resize', applyViewports);
+                    applyViewports();
+
+                    // Split compare view
+                    let lockScroll = ${this._lockScroll ? 'true' : 'false'};
+
+                    function setLayout(layout) {
+                        vscode.postMessage({ command: 'setLayout', layout: layout });
+                    }
+
+                    function setCompareTab(tabId) {
+                        vscode.postMessage({ command: 'setCompareTab', tabId: tabId });
+                    }
+
+                    function snapshotTab() {
+                        vscode.postMessage({ command: 'snapshotTab' });
+                    }
+
+                    function exportTab() {
+                        vscode.postMessage({ command: 'exportTab' });
+                    }
+
+                    function toggleLockScroll() {
+                        lockScroll = !lockScroll;
+                        document.querySelector('.lock-scroll-btn').classList.toggle('active', lockScroll);
+                        vscode.postMessage({ command: 'setLockScroll', enabled: lockScroll });
+                    }
+
+                    // Mirror the relative scroll position a page reports to the page in the other pane.
+                    // Pages from the preview server do not report theirs and are left alone.
+                    function mirrorScroll(frames, index, data) {
+                        const other = frames[1 - index];
+                        if (lockScroll && other && frames.length === 2) {
+                            other.contentWindow.postMessage({ target: 'preview', command: 'scrollToRatio', x: data.x, ratio: data.ratio }, '*');
+                        }
+                    }
+                    
+                    function toggleInspect() {
+                        const button = document.querySelector('.inspect-btn');
+                        const enabled = !button.classList.contains('active');
+                        button.classList.toggle('active', enabled);
+                        if (!enabled) {
+                            document.querySelector('.inspector-bar').classList.remove('visible');
+                        }
+                        vscode.postMessage({ command: 'setInspectMode', enabled: enabled });
+                    }
+                    
+                    function toggleAudit() {
+                        const button = document.querySelector('.audit-btn');
+                        const enabled = !button.classList.contains('active');
+                        button.classList.toggle('active', enabled);
+                        vscode.postMessage({ command: 'setAuditMode', enabled: enabled });
+                    }
+                    
+                    function showInspection(description, rules) {
+                        const bar = document.querySelector('.inspector-bar');
+                        bar.textContent = '';
+                        const element = document.createElement('div');
+                        element.className = 'inspector-element';
+                        element.textContent = description + (rules.length ? '' : ' (no matching rules)');
+                        bar.appendChild(element);
+                        rules.forEach(function(rule) {
+                            const row = document.createElement('div');
+                            row.className = 'inspector-rule';
+                            const selector = document.createElement('span');
+                            selector.textContent = rule.selector;
+                            const source = document.createElement('span');
+                            source.className = 'inspector-source';
+                            source.textContent = rule.source;
+                            row.appendChild(selector);
+                            row.appendChild(source);
+                            if (rule.uri) {
+                                row.onclick = function() {
+                                    vscode.postMessage({ command: 'openSource', uri: rule.uri, line: rule.line });
+                                };
+                            }
+                            bar.appendChild(row);
+                        });
+                        bar.classList.add('visible');
+                    }
+
+                    // Requests of the extension API get a port of their own, which only the page
+                    // can answer through; answers are relayed as the chrome's, not the page's
+                    function requestFromPage(frame, request) {
+                        const channel = new MessageChannel();
+                        channel.port1.onmessage = function(answer) {
+                            channel.port1.close();
+                            const data = answer.data || {};
+                            vscode.postMessage({
+                                command: 'automationResult',
+                                id: request.id,
+                                value: typeof data.value === 'string' ? data.value : undefined,
+                                error: typeof data.error === 'string' ? data.error : undefined
+                            });
+                        };
+                        frame.contentWindow.postMessage(request, '*', [channel.port2]);
+                    }
+
+                    // The page of the active tab finished loading. Load events do not bubble, but
+                    // reach the document while capturing
+                    document.addEventListener('load', function(e) {
+                        if (e.target === document.querySelector('.pane[data-pane="primary"] iframe')) {
+                            vscode.postMessage({ command: 'pageRendered', patched: false });
+                        }
+                    }, true);
+
+                    // Relay messages between the previewed pages and the extension
+                    window.addEventListener('message', function(e) {
+                        const frames = document.querySelectorAll('.pane iframe');
+                        for (let i = 0; i < frames.length; i++) {
+                            if (e.source === frames[i].contentWindow) {
+                                if (e.data && e.data.command === 'paneScrolled') {
+                                    mirrorScroll(frames, i, e.data);
+                                    return;
+                                }
+                                const message = Object.assign({}, e.data, { pane: frames[i].closest('.pane').dataset.pane });
+                                vscode.postMessage(message);
+                                return;
+                            }
+                        }
+                        if (e.data && e.data.target === 'preview') {
+                            const frame = document.querySelector('.pane[data-pane="' + (e.data.pane || 'primary') + '"] iframe');
+                            if (frame && (e.data.command === 'evaluate' || e.data.command === 'queryElements')) {
+                                requestFromPage(frame, e.data);
+                            } else if (frame) {
+                                frame.contentWindow.postMessage(e.data, '*');
+                                // The page handles the patch before any request sent after this
+                                if (e.data.command === 'patchDocument' && !e.data.pane) {
+                                    vscode.postMessage({ command: 'pageRendered', patched: true });
+                                }
+                            }
+                        } else if (e.data && e.data.command === 'showInspection') {
+                            showInspection(e.data.description, e.data.rules);
+                        } else if (e.data && e.data.command === 'setAddress') {
+                            document.querySelector('.address-bar').value = e.data.address;
+                        } else if (e.data && e.data.command === 'setTabs') {
+                            document.querySelector('.tab-bar').innerHTML = e.data.tabs;
+                            // Only the split layout has the select
+                            const compareSelect = document.querySelector('.compare-select');
+                            if (compareSelect) {
+                                compareSelect.innerHTML = e.data.compareOptions;
+                            }
+                        }
+                    });
+                </script>
+            </body>
+            </html>`;
+    }
+
+    private _isServed(tab: PreviewTab): boolean {
+        // Unsaved documents have no URL to be served at
+        return !!tab.uri && tab.uri.scheme !== 'untitled' && tab.snapshot === undefined && this._isServerMode();
+    }
+
+    private async _getPaneContent(tab: PreviewTab, pane: Pane, context: RenderContext): Promise<string> {
+        if (tab.snapshot !== undefined) {
+            return this._getPreviewContent(tab.snapshot, this._getSandbox(tab), context);
+        }
+        // Pages are validated as they are shown, with includes and templates expanded, and
+        // with the missing files their render came across
+        const template = tab.uri && tab.content ? await this._templates.render(tab.content, tab.uri) : undefined;
+        if (tab.uri && template && this._isServed(tab)) {
+            tab.problems = await this._validator.validate(template.html, tab.uri, template.lines);
+            return this._getServerPreviewContent(tab.uri, this._getSandbox(tab));
+        }
+        if (tab.uri && template) {
+            tab.dependencies.clear();
+            const missing: MissingResource[] = [];
+            const html = await this._renderDocument(template, tab.uri, {
+                interactive: pane === 'primary',
+                scrollSync: pane === 'primary' && tab.scrollSync,
+                dependencies: tab.dependencies,
+                missing: missing,
+                fragment: pane === 'primary' ? this._pendingFragment : undefined,
+                sandbox: this._getSandbox(tab)
+            });
+            tab.problems = await this._validator.validate(template.html, tab.uri, template.lines, missing);
+            context.pages.set(pane, { tabId: tab.id, html: html });
+            return this._getPreviewContent(html, this._getSandbox(tab), context);
+        }
+        return pane === 'primary'
+            ? this._getFileBrowserHtml()
+            : '<div class="compare-placeholder">No HTML file loaded in this tab.</div>';
+    }
+
+    /**
+     * Turns a document, with its includes and templates expanded, into the page shown in
+     * the preview iframe: resources are inlined or converted and the preview client
+     * scripts are injected.
+     */
+    private async _renderDocument(template: TemplateResult, documentUri: vscode.Uri, options: RenderOptions): Promise<string> {
+        template.partials.forEach(uri => options.dependencies.set(uri.toString(), 'partial'));
+        let htmlContent = this._annotateSourceLines(template.html, template.lines);
+        if (!options.patch) {
+            htmlContent = this._nameInlineScripts(htmlContent, documentUri, template.lines);
+        }
+        // Only trusted pages get the nonce their own scripts need to run
+        const converted = await this._convertResourcePaths(htmlContent, documentUri, options.dependencies,
+            options.sandbox === 'trusted' ? NONCE_PLACEHOLDER : undefined, !options.patch);
+        options.missing?.push(...converted.missing);
+        htmlContent = converted.html.split(SOURCE_URL_BREAK).join('\n');
+
+        // Capture console output and intercept requests before any script of the page runs
+        htmlContent = injectIntoHead(htmlContent, this._withNonce(getConsoleScript()
+            + getMockScript(await this._mocks.getRoutes(documentUri), this._getMockPageUrl(documentUri))));
+
+        // Add scripts to inspect elements, handle links, hot-swap styles, audit and sync scrolling.
+        // The inspector goes first so its click handler can stop link navigation.
+        let clientScripts = getNavigationScript(options.fragment) + getDomPatchScript() + getPaneScrollScript();
+        if (options.interactive) {
+            clientScripts = getInspectorScript(this._inspectMode) + clientScripts + getStyleHotSwapScript() + getAuditScript(this._auditMode) + getAutomationScript();
+        }
+        if (options.scrollSync) {
+            clientScripts += getScrollSyncScript();
+        }
+        clientScripts = this._withNonce(clientScripts);
+
+        // Insert script before closing body tag, or at the end if no body tag
+        if (htmlContent.includes('</body>')) {
+            htmlContent = htmlContent.replace('</body>', clientScripts + '</body>');
+        } else {
+            htmlContent = htmlContent + clientScripts;
+        }
+        return htmlContent;
+    }
+
+    /**
+     * Marks the preview's own client scripts so the Content-Security-Policy lets them run.
+     */
+    private _withNonce(scripts: string): string {
+        return scripts.replace(/<script>/g, `<script nonce="${NONCE_PLACEHOLDER}">`);
+    }
+
+    /**
+     * Puts a rendered page into a sandboxed iframe. The page inherits the webview's
+     * Content-Security-Policy, so what a trusted page needs is noted for it here, and gets
+     * the policy of its own profile in front of everything else it has.
+     */
+    private _getPreviewContent(htmlContent: string, sandbox: SandboxProfile, context: RenderContext): string {
+        const eventHandlerHashes = sandbox === 'trusted' ? getEventHandlerHashes(htmlContent) : [];
+        if (sandbox === 'trusted') {
+            context.trusted = true;
+            eventHandlerHashes.forEach(hash => context.eventHandlerHashes.add(hash));
+        }
+        const policy = buildPagePolicy(sandbox, { cspSource: this._webview.cspSource, nonce: context.nonce, eventHandlerHashes: eventHandlerHashes });
+        const page = htmlContent.split(NONCE_PLACEHOLDER).join(context.nonce);
+        // Right after the doctype, which must stay first, so the policy covers everything after it
+        const doctype = /^\s*(<!--[\s\S]*?-->\s*)*<!doctype[^>]*>/i.exec(page);
+        const index = doctype ? doctype[0].length : 0;
+        const pageWithPolicy = page.slice(0, index)
+            + `<meta http-equiv="Content-Security-Policy" content="${escapeHtml(policy)}">` + page.slice(index);
+        return `
+            <iframe srcdoc="${escapeHtml(pageWithPolicy)}" 
+                    sandbox="${SANDBOX_ATTRIBUTES[sandbox]}" 
+                    style="width:100%; height:100%; border:none;">
+            </iframe>
+        `;
+    }
+
+    /**
+     * Shows a page from the preview server. Its scripts are not under the webview's
+     * policy, so untrusted pages run without any scripts (and without live reload).
+     */
+    private async _getServerPreviewContent(documentUri: vscode.Uri, sandbox: SandboxProfile): Promise<string> {
+        try {
+            const server = await this._getServer(documentUri);
+            return `
+                <iframe src="${escapeHtml(server.urlFor(documentUri))}"
+                        sandbox="${sandbox === 'trusted' ? 'allow-scripts allow-same-origin allow-forms allow-modals allow-popups' : ''}"
+                        style="width:100%; height:100%; border:none;">
+                </iframe>
+            `;
+        } catch (error) {
+            console.error('Failed to start preview server', error);
+            vscode.window.showErrorMessage(`Antigravity: Could not start the preview server: ${error}`);
+            return '';
+        }
+    }
+
+    /**
+     * Marks every element in the document body with the (zero-based) source line its
+     * start tag is on, so positions in the preview can be mapped back to the editor.
+     * Must run before anything is inlined; `lines` maps the lines of an expanded document
+     * to the source's.
+     */
+    private _annotateSourceLines(html: string, lines: number[] | undefined): string {
+        const skippedTags = ['html', 'head', 'body', 'meta', 'link', 'base', 'title'];
+        let line = 0;
+        let lastIndex = 0;
+
+        // Comments and raw-text elements are matched whole so tags inside them are left alone
+        return html.replace(/<!--[\s\S]*?-->|<(script|style|textarea)\b[\s\S]*?<\/\1\s*>|<([a-zA-Z][\w:-]*)/g, (match, rawTag, tagName, offset: number) => {
+            for (let i = lastIndex; i < offset; i++) {
+                if (html.charCodeAt(i) === 10) {
+                    line++;
+                }
+            }
+            lastIndex = offset;
+
+            const sourceLine = lines?.[line] ?? line;
+            if (rawTag) {
+                return `<${rawTag} data-ag-line="${sourceLine}"${match.slice(rawTag.length + 1)}`;
+            }
+            if (!tagName || skippedTags.includes(tagName.toLowerCase())) {
+                return match;
+            }
+            return `${match} data-ag-line="${sourceLine}"`;
+        });
+    }
+
+    /**
+     * Gives every inline script a `//# sourceURL` name mapped to its position in the
+     * document, so stack traces point back into the HTML file. Must run before anything is
+     * inlined (line annotations are fine, they add no line breaks); `lines` maps the lines
+     * of an expanded document to the source's.
+     */
+    private _nameInlineScripts(html: string, documentUri: vscode.Uri, lines: number[] | undefined): string {
+        return html.replace(/(<script\b([^>]*)>)([\s\S]*?)(<\/script\s*>)/gi, (match, openTag: string, attributes: string, content: string, closeTag: string, offset: number) => {
+            const type = /\btype\s*=\s*["']?([^"'\s>]+)/i.exec(attributes)?.[1].toLowerCase();
+            const isJavaScript = !type || type === 'module' || type.includes('javascript') || type.includes('ecmascript');
+            if (/\bsrc\s*=/i.test(attributes) || !isJavaScript || !content.trim()) {
+                return match;
+            }
+
+            const before = html.slice(0, offset + openTag.length);
+            const line = before.split('\n').length - 1;
+            const character = before.length - before.lastIndexOf('\n') - 1;
+            const sourceName = this._console.registerScript(this._location, { uri: documentUri, line: lines?.[line] ?? line, character: character });
+            return `${openTag}${content}${SOURCE_URL_BREAK}//# sourceURL=${sourceName}${SOURCE_URL_BREAK}${closeTag}`;
+        });
+    }
+
+    /**
+     * The URL an inline page would have on a local server of its workspace folder, which
+     * its relative requests are resolved against when matching mock routes.
+     */
+    private _getMockPageUrl(documentUri: vscode.Uri): string {
+        const folder = vscode.workspace.getWorkspaceFolder(documentUri);
+        const relative = folder ? path.posix.relative(folder.uri.path, documentUri.path) : path.posix.basename(documentUri.path);
+        return `http://localhost/${relative.split('/').map(segment => encodeURIComponent(segment)).join('/')}`;
+    }
+
+    private async _convertResourcePaths(html: string, documentUri: vscode.Uri, dependencies: Map<string, DependencyKind>, scriptNonce: string | undefined, nameScripts: boolean): Promise<RewriteResult> {
+        const result = await this._createRewriter(scriptNonce, nameScripts).rewriteHtml(html, documentUri);
+        // Missing files are tracked too, so creating them refreshes the page
+        result.resources.forEach(uri => dependencies.set(uri.toString(), 'resource'));
+        result.missing.forEach(missing => missing.uri && dependencies.set(missing.uri.toString(), 'resource'));
+        result.scripts.forEach(uri => dependencies.set(uri.toString(), 'script'));
+        result.stylesheets.forEach(uri => dependencies.set(uri.toString(), 'stylesheet'));
+        result.stylesheetImports.forEach(uri => dependencies.set(uri.toString(), 'stylesheet'));
+        return result;
+    }
+
+    private _createRewriter(scriptNonce?: string, nameScripts: boolean = false): ResourceRewriter {
+        return new ResourceRewriter(this._webview, {
+            inline: true,
+            modules: this._moduleCache,
+            scriptNonce: scriptNonce,
+            // Named so errors in inlined scripts can be mapped back to the file
+            nameScript: nameScripts ? uri => this._console.registerScript(this._location, { uri: uri, line: 0, character: 0 }) : undefined
+        });
+    }
+
+    private _getFileBrowserHtml(): string {
+        return `
+            <div style="display: flex; align-items: center; justify-content: center; height: 100%; background: #1e1e1e;">
+                <div style="text-align: center; padding: 40px;">
+                    <div style="font-size: 48px; margin-bottom: 20px;">📄</div>
+                    <h2 style="color: #fff; margin-bottom: 10px;">No HTML File Loaded</h2>
+                    <p style="color: #888; margin-bottom: 30px;">Open an HTML file in the editor or select one.</p>
+                    <button data-action="selectFile" 
+                            style="background: linear-gradient(135deg, #8a2be2, #4169e1); 
+                                   color: white; border: none; padding: 12px 24px; 
+                                   border-radius: 6px; cursor: pointer; font-size: 14px; font-weight: 600;">
+                        Select HTML File
+                    </button>
+                </div>
+            </div>
+        `;
+    }
+
+    private _getErrorHtml(message: string): string {
+        return `<!DOCTYPE html>
+            <html>
+            <body style="background: #1e1e1e; color: #ccc; display: flex; align-items: center; justify-content: center; height: 100vh; font-family: sans-serif;">
+                <div style="text-align: center; padding: 40px;">
+                    <h2 style="color: #f48771; margin-bottom: 10px;">The preview could not be rendered</h2>
+                    <p>${escapeHtml(message)}</p>
+                    <p style="color: #888; margin-top: 10px;">See the Antigravity Preview output for details. Edit or save the file to try again.</p>
+                </div>
+            </body>
+            </html>`;
+    }
+
+    private _getEmptyHtml(): string {
+        return `<!DOCTYPE html>
+            <html>
+            <body style="background: #1e1e1e; color: #ccc; display: flex; align-items: center; justify-content: center; height: 100vh;">
+                <div>No tabs</div>
+            </body>
+            </html>`;
+    }
+
+    public dispose() {
+        this._disposeServers();
+        this._audit.clear(this);
+        this._console.reset(this._location);
+        this._manager.setLocationOpen(this._location, false);
+        this._pageRequests.forEach(request => request.reject(new Error('The preview was closed')));
+
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+
+    /**
+     * Follows a link clicked in the page. Local HTML pages open in the tab (or in a
+     * new one when a modifier key was held), other local files open in the editor.
+     * Relative links resolve against the page's `<base href>` like in a browser.
+     */
+    private async _handleLink(href: string, newTab: boolean) {
+        // Handle external links
+        if (href.startsWith('http://') || href.startsWith('https://') || href.startsWith('mailto:')) {
+            vscode.env.openExternal(vscode.Uri.parse(href));
+            return;
+        }
+
+        // Handle relative links
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (activeTab && activeTab.uri) {
+            const { target, fragment } = this._splitFragment(href);
+            const folder = vscode.workspace.getWorkspaceFolder(activeTab.uri);
+            const template = await this._templates.render(activeTab.content, activeTab.uri);
+            const base = new ResourceRewriter(undefined).resolveBase(template.html, activeTab.uri);
+            let targetUri: vscode.Uri;
+            try {
+                const targetPath = decodeURIComponent(target.replace(/\?.*$/, ''));
+                if (targetPath && (base.scheme === 'http' || base.scheme === 'https')) {
+                    vscode.env.openExternal(vscode.Uri.parse(new URL(href, base.toString(true)).toString()));
+                    return;
+                }
+                if (!targetPath) {
+                    targetUri = activeTab.uri;
+                } else if (targetPath.startsWith('/') && folder) {
+                    // Root-relative links point into the workspace folder, like on a web server
+                    targetUri = vscode.Uri.joinPath(folder.uri, targetPath);
+                } else {
+                    targetUri = vscode.Uri.joinPath(base, targetPath);
+                }
+            } catch {
+                vscode.window.showErrorMessage(`Invalid link: ${href}`);
+                return;
+            }
+            await this._openTarget(activeTab, targetUri, fragment, newTab, href);
+        }
+    }
+
+    /**
+     * Navigates the active tab to what was typed into the address bar: a path relative
+     * to the workspace folder (as shown), an absolute path, or a web address.
+     */
+    private async _navigateTo(address: string) {
+        address = String(address).trim();
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (!address || !activeTab) {
+            return;
+        }
+        if (/^https?:\/\//i.test(address)) {
+            vscode.env.openExternal(vscode.Uri.parse(address));
+            return;
+        }
+
+        const { target, fragment } = this._splitFragment(address);
+        const candidates: vscode.Uri[] = [];
+        if (target && path.isAbsolute(target)) {
+            // Absolute paths are on the file system the current page comes from
+            const current = activeTab.uri?.scheme === 'untitled' ? undefined : activeTab.uri;
+            candidates.push(!current || current.scheme === 'file'
+                ? vscode.Uri.file(target)
+                : current.with({ path: target, query: '', fragment: '' }));
+        }
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            // Paths of multi-root workspaces start with the folder name
+            candidates.push(vscode.Uri.joinPath(folder.uri, target));
+            if (target.startsWith(`${folder.name}/`)) {
+                candidates.push(vscode.Uri.joinPath(folder.uri, target.slice(folder.name.length + 1)));
+            }
+        }
+        let targetUri: vscode.Uri | undefined = target ? undefined : activeTab.uri;
+        for (const candidate of target ? candidates : []) {
+            if (await resourceExists(candidate)) {
+                targetUri = candidate;
+                break;
+            }
+        }
+        if (!targetUri) {
+            vscode.window.showErrorMessage(`File not found: ${address}`);
+            return;
+        }
+        await this._openTarget(activeTab, targetUri, fragment, false, address);
+    }
+
+    private async _openTarget(tab: PreviewTab, targetUri: vscode.Uri, fragment: string, newTab: boolean, reference: string) {
+        try {
+            if (await this._isDirectory(targetUri)) {
+                targetUri = vscode.Uri.joinPath(targetUri, 'index.html');
+            }
+
+            if (await resourceExists(targetUri)) {
+                const document = await vscode.workspace.openTextDocument(targetUri);
+
+                // Check if it's an HTML file
+                if (path.posix.extname(targetUri.path).toLowerCase().startsWith('.htm')) {
+                    // Pinned tabs keep their page, links open next to them
+                    if (newTab || tab.pinned) {
+                        // Opened from a link, so the new tab stays on its page
+                        tab = this._manager.createTab(this._location);
+                        tab.mode = 'locked';
+                    }
+                    this._manager.navigateTab(tab, document, fragment);
+                    this._pendingFragment = fragment;
+                    this._update();
+                } else {
+                    // Open other files in editor
+                    vscode.window.showTextDocument(document);
+                }
+            } else {
+                vscode.window.showErrorMessage(`File not found: ${reference}`);
+            }
+        } catch (error) {
+            console.error('Error handling link:', error);
+        }
+    }
+
+    private async _isDirectory(uri: vscode.Uri): Promise<boolean> {
+        try {
+            return ((await vscode.workspace.fs.stat(uri)).type & vscode.FileType.Directory) !== 0;
+        } catch {
+            return false;
+        }
+    }
+
+    private async _navigateHistory(delta: number) {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        const entry = activeTab?.history[activeTab.historyIndex + delta];
+        if (!activeTab || !entry) {
+            return;
+        }
+
+        try {
+            const document = await vscode.workspace.openTextDocument(entry.uri);
+            activeTab.historyIndex += delta;
+            this._manager.bindTab(activeTab, document);
+            this._pendingFragment = entry.fragment;
+            this._update();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Cannot open ${vscode.workspace.asRelativePath(entry.uri)}`);
+        }
+    }
+
+    /**
+     * Renders the active tab again from its file, at the current fragment.
+     */
+    private async _reload() {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (!activeTab?.uri || activeTab.snapshot !== undefined) {
+            this._update();
+            return;
+        }
+        this._manager.bindTab(activeTab, await vscode.workspace.openTextDocument(activeTab.uri));
+        this._pendingFragment = activeTab.history[activeTab.historyIndex]?.fragment;
+        this._update();
+    }
+
+    /**
+     * The page followed a `#fragment` link by itself; record it and update the address bar.
+     */
+    private _fragmentChanged(fragment: string) {
+        const activeTab = this._tabs.find(t => t.id === this._activeTabId);
+        if (activeTab) {
+            this._manager.navigateToFragment(activeTab, String(fragment));
+            this._webview.postMessage({ command: 'setAddress', address: this._getAddress(activeTab) });
+        }
+    }
+
+    private _splitFragment(reference: string): { target: string; fragment: string } {
+        const index = reference.indexOf('#');
+        return index === -1
+            ? { target: reference, fragment: '' }
+            : { target: reference.slice(0, index), fragment: reference.slice(index + 1) };
+    }
+
+    /**
+     * The workspace-relative path of the tab's page as shown in the address bar.
+     */
+    private _getAddress(tab: PreviewTab): string {
+        if (!tab.uri) {
+            return '';
+        }
+        const fragment = tab.history[tab.historyIndex]?.fragment;
+        return vscode.workspace.asRelativePath(tab.uri) + (fragment ? `#${fragment}` : '');
+    }
+}
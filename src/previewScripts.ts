@@ -0,0 +1,1179 @@
+/**
+ * Client scripts injected into the previewed page.
+ *
+ * The page runs inside an iframe of the preview webview and cannot talk to the
+ * extension directly. It posts messages to the parent frame, which relays them
+ * to the extension, and it receives messages from the extension through the
+ * parent frame as well (those carry `target: 'preview'`).
+ */
+
+/**
+ * Hands link clicks to the extension, which loads local pages into the tab (or a new
+ * tab when Ctrl/Cmd or the middle button is used). `#fragment` links stay in the page
+ * and are only reported, and a fragment to scroll to after loading can be passed in.
+ */
+export function getNavigationScript(fragment?: string): string {
+    return `
+        <script>
+            (function() {
+                const initialFragment = ${JSON.stringify(fragment || '').replace(/</g, '\\u003c')};
+                if (initialFragment) {
+                    window.addEventListener('load', function() {
+                        const target = document.getElementById(initialFragment) || document.getElementsByName(initialFragment)[0];
+                        if (target) {
+                            target.scrollIntoView();
+                        }
+                    });
+                }
+
+                // Prevent navigation by intercepting link clicks
+                function handleClick(e) {
+                    const target = e.target.closest('a');
+                    if (target) {
+                        const href = target.getAttribute('href');
+                        if (!href) {
+                            return;
+                        }
+
+                        // Allow hash links for anchor navigation if they are just hashes
+                        if (href.startsWith('#')) {
+                            if (e.type === 'click') {
+                                window.parent.postMessage({
+                                    command: 'fragmentChanged',
+                                    fragment: href.slice(1)
+                                }, '*');
+                            }
+                            return;
+                        }
+
+                        // Prevent navigation for all other links
+                        e.preventDefault();
+
+                        // Ask the extension to handle navigation
+                        window.parent.postMessage({
+                            command: 'openLink',
+                            href: href,
+                            newTab: e.ctrlKey || e.metaKey || e.button === 1
+                        }, '*');
+                    }
+                }
+                document.addEventListener('click', handleClick, true);
+                document.addEventListener('auxclick', function(e) {
+                    if (e.button === 1) {
+                        handleClick(e);
+                    }
+                }, true);
+            })();
+        </script>
+    `;
+}
+
+/**
+ * Swaps stylesheets in place when the extension pushes new CSS, so scroll position,
+ * script state and form input survive style edits. Stylesheets are matched by their
+ * `data-ag-style` attribute, which the extension adds while inlining.
+ */
+export function getStyleHotSwapScript(): string {
+    return `
+        <script>
+            (function() {
+                window.addEventListener('message', function(e) {
+                    const message = e.data;
+                    if (!message || message.target !== 'preview' || message.command !== 'updateStyle') {
+                        return;
+                    }
+                    document.querySelectorAll('style[data-ag-style]').forEach(function(style) {
+                        if (style.getAttribute('data-ag-style') === message.id) {
+                            style.textContent = message.css;
+                        }
+                    });
+                });
+            })();
+        </script>
+    `;
+}
+
+/**
+ * Applies edits of the document to the running page without reloading it. The extension
+ * sends the page rendered before and after the edit; only what changed between the two
+ * is changed in the live DOM, so anything else (and the state scripts gave it) stays.
+ * Elements from the source carry their line in `data-ag-line`, elements without one were
+ * added by a script and are left alone. Scripts and the <head> are never patched, the
+ * extension reloads the page when they change; only <style> blocks are updated there.
+ */
+export function getDomPatchScript(): string {
+    return `
+        <script>
+            (function() {
+                // How far ahead an unchanged node is looked for, to tell insertions and removals from edits
+                const LOOKAHEAD = 50;
+
+                function sourceNodes(parent) {
+                    return Array.prototype.filter.call(parent.childNodes, function(node) {
+                        return node.nodeType === 3 || node.nodeType === 8 || (node.nodeType === 1 && node.hasAttribute('data-ag-line'));
+                    });
+                }
+
+                function attributesOf(element) {
+                    return Array.prototype.filter.call(element.attributes, function(attribute) {
+                        return attribute.name !== 'data-ag-line';
+                    }).map(function(attribute) {
+                        return attribute.name + '=' + attribute.value;
+                    }).join('\\n');
+                }
+
+                // Equal apart from source lines, which shift with every line added above
+                function isSame(a, b) {
+                    if (a.nodeType !== b.nodeType || a.nodeName !== b.nodeName) {
+                        return false;
+                    }
+                    if (a.nodeType !== 1) {
+                        return a.nodeValue === b.nodeValue;
+                    }
+                    if (a.childNodes.length !== b.childNodes.length || attributesOf(a) !== attributesOf(b)) {
+                        return false;
+                    }
+                    for (let i = 0; i < a.childNodes.length; i++) {
+                        if (!isSame(a.childNodes[i], b.childNodes[i])) {
+                            return false;
+                        }
+                    }
+                    return true;
+                }
+
+                function indexOfSame(nodes, start, node) {
+                    for (let i = start; i < nodes.length && i <= start + LOOKAHEAD; i++) {
+                        if (isSame(nodes[i], node)) {
+                            return i;
+                        }
+                    }
+                    return -1;
+                }
+
+                function syncLines(live, after) {
+                    if (live.nodeType !== 1) {
+                        return;
+                    }
+                    const liveLines = [live].concat(Array.prototype.slice.call(live.querySelectorAll('[data-ag-line]')));
+                    const newLines = [after].concat(Array.prototype.slice.call(after.querySelectorAll('[data-ag-line]')));
+                    if (liveLines.length !== newLines.length) {
+                        return;
+                    }
+                    liveLines.forEach(function(element, index) {
+                        const line = newLines[index].getAttribute('data-ag-line');
+                        if (line !== null && element.getAttribute('data-ag-line') !== line) {
+                            element.setAttribute('data-ag-line', line);
+                        }
+                    });
+                }
+
+                function patchAttributes(live, before, after) {
+                    Array.prototype.forEach.call(before.attributes, function(attribute) {
+                        if (!after.hasAttribute(attribute.name)) {
+                            live.removeAttribute(attribute.name);
+                        }
+                    });
+                    Array.prototype.forEach.call(after.attributes, function(attribute) {
+                        if (before.getAttribute(attribute.name) !== attribute.value) {
+                            live.setAttribute(attribute.name, attribute.value);
+                        }
+                    });
+                }
+
+                function patchNode(live, before, after) {
+                    if (live.nodeType !== 1) {
+                        if (live.nodeValue !== after.nodeValue) {
+                            live.nodeValue = after.nodeValue;
+                        }
+                        return;
+                    }
+                    patchAttributes(live, before, after);
+                    if (live.tagName === 'SCRIPT') {
+                        return;
+                    }
+                    if (live.tagName === 'TEMPLATE') {
+                        live.innerHTML = after.innerHTML;
+                        return;
+                    }
+                    patchChildren(live, before, after);
+                }
+
+                function patchChildren(live, before, after) {
+                    const liveNodes = sourceNodes(live);
+                    const oldNodes = sourceNodes(before);
+                    const newNodes = sourceNodes(after);
+                    const create = function(node) {
+                        return document.importNode(node, true);
+                    };
+
+                    if (liveNodes.length !== oldNodes.length) {
+                        // Scripts took source nodes away here, so they cannot be matched up: start over
+                        liveNodes.forEach(function(node) {
+                            live.removeChild(node);
+                        });
+                        newNodes.forEach(function(node) {
+                            live.appendChild(create(node));
+                        });
+                        return;
+                    }
+
+                    let i = 0;
+                    let j = 0;
+                    // The last node kept or added, new nodes go right after it
+                    let last = null;
+                    const insert = function(node) {
+                        last = live.insertBefore(create(node), last ? last.nextSibling : live.firstChild);
+                    };
+                    while (i < oldNodes.length || j < newNodes.length) {
+                        const node = liveNodes[i];
+                        const previous = oldNodes[i];
+                        const next = newNodes[j];
+                        if (!next) {
+                            live.removeChild(node);
+                            i++;
+                        } else if (!previous) {
+                            insert(next);
+                            j++;
+                        } else if (isSame(previous, next)) {
+                            syncLines(node, next);
+                            last = node;
+                            i++;
+                            j++;
+                        } else {
+                            const inserted = indexOfSame(newNodes, j + 1, previous);
+                            const removed = indexOfSame(oldNodes, i + 1, next);
+                            if (inserted !== -1 && (removed === -1 || inserted - j <= removed - i)) {
+                                for (; j < inserted; j++) {
+                                    insert(newNodes[j]);
+                                }
+                            } else if (removed !== -1) {
+                                for (; i < removed; i++) {
+                                    live.removeChild(liveNodes[i]);
+                                }
+                            } else if (previous.nodeName === next.nodeName && (previous.nodeType !== 1 || previous.id === next.id)) {
+                                patchNode(node, previous, next);
+                                last = node;
+                                i++;
+                                j++;
+                            } else {
+                                live.removeChild(node);
+                                insert(next);
+                                i++;
+                                j++;
+                            }
+                        }
+                    }
+                }
+
+                // The CSS of <style> blocks in the head, matched by their data-ag-style id
+                function patchHeadStyles(before, after) {
+                    const previous = {};
+                    before.head.querySelectorAll('style[data-ag-style]').forEach(function(style) {
+                        previous[style.getAttribute('data-ag-style')] = style.textContent;
+                    });
+                    after.head.querySelectorAll('style[data-ag-style]').forEach(function(style) {
+                        const id = style.getAttribute('data-ag-style');
+                        if (previous[id] === style.textContent) {
+                            return;
+                        }
+                        document.head.querySelectorAll('style[data-ag-style]').forEach(function(live) {
+                            if (live.getAttribute('data-ag-style') === id) {
+                                live.textContent = style.textContent;
+                            }
+                        });
+                    });
+                }
+
+                window.addEventListener('message', function(e) {
+                    const message = e.data;
+                    if (!message || message.target !== 'preview' || message.command !== 'patchDocument' || !document.body) {
+                        return;
+                    }
+                    const parser = new DOMParser();
+                    const before = parser.parseFromString(message.previous, 'text/html');
+                    const after = parser.parseFromString(message.html, 'text/html');
+                    patchAttributes(document.documentElement, before.documentElement, after.documentElement);
+                    patchHeadStyles(before, after);
+                    patchAttributes(document.body, before.body, after.body);
+                    patchChildren(document.body, before.body, after.body);
+                    window.dispatchEvent(new Event('ag-patched'));
+                });
+            })();
+        </script>
+    `;
+}
+
+/**
+ * Keeps the editor and the preview scrolled to the same place. Elements carry the
+ * source line they start on in `data-ag-line`; the one at the viewport top is reported
+ * when the page scrolls, and the page scrolls to a line when the editor does.
+ */
+export function getScrollSyncScript(): string {
+    return `
+        <script>
+            (function() {
+                let ignoreScrollUntil = 0;
+                let scrollTimeout;
+
+                function lineElements() {
+                    return Array.prototype.slice.call(document.querySelectorAll('[data-ag-line]'));
+                }
+
+                window.addEventListener('scroll', function() {
+                    if (Date.now() < ignoreScrollUntil) {
+                        return;
+                    }
+                    clearTimeout(scrollTimeout);
+                    scrollTimeout = setTimeout(function() {
+                        // The last element (in source order) starting above the viewport top
+                        let current;
+                        lineElements().forEach(function(el) {
+                            const rect = el.getBoundingClientRect();
+                            if (rect.height > 0 && rect.top <= 1) {
+                                current = el;
+                            }
+                        });
+                        window.parent.postMessage({
+                            command: 'previewScrolled',
+                            line: current ? Number(current.getAttribute('data-ag-line')) : 0
+                        }, '*');
+                    }, 50);
+                }, { passive: true });
+
+                window.addEventListener('message', function(e) {
+                    const message = e.data;
+                    if (!message || message.target !== 'preview' || message.command !== 'scrollToLine') {
+                        return;
+                    }
+                    let target;
+                    lineElements().forEach(function(el) {
+                        const line = Number(el.getAttribute('data-ag-line'));
+                        if (line <= message.line && el.getBoundingClientRect().height > 0) {
+                            target = el;
+                        }
+                    });
+                    ignoreScrollUntil = Date.now() + 200;
+                    window.scrollTo({ top: target ? target.getBoundingClientRect().top + window.scrollY : 0 });
+                });
+            })();
+        </script>
+    `;
+}
+
+/**
+ * Locked scrolling of the split layout. Pages run with an opaque origin, so the chrome
+ * cannot reach into them: each page reports its relative scroll position, which the
+ * chrome hands to the page in the other pane.
+ */
+export function getPaneScrollScript(): string {
+    return `
+        <script>
+            (function() {
+                let ignoreScrollUntil = 0;
+
+                function maxScroll() {
+                    return document.documentElement.scrollHeight - window.innerHeight;
+                }
+
+                window.addEventListener('scroll', function() {
+                    if (Date.now() < ignoreScrollUntil) {
+                        return;
+                    }
+                    window.parent.postMessage({
+                        command: 'paneScrolled',
+                        x: window.scrollX,
+                        ratio: maxScroll() > 0 ? window.scrollY / maxScroll() : 0
+                    }, '*');
+                }, { passive: true });
+
+                window.addEventListener('message', function(e) {
+                    const message = e.data;
+                    if (e.source !== window.parent || !message || message.target !== 'preview' || message.command !== 'scrollToRatio') {
+                        return;
+                    }
+                    ignoreScrollUntil = Date.now() + 50;
+                    window.scrollTo(Number(message.x) || 0, (Number(message.ratio) || 0) * maxScroll());
+                });
+            })();
+        </script>
+    `;
+}
+
+/**
+ * Inspect mode: highlights the element under the cursor and, on click, reports its
+ * source line together with the stylesheet rules that match it. Rules are reported
+ * by the `data-ag-style` id of their stylesheet, the extension maps them back to files.
+ */
+export function getInspectorScript(enabled: boolean): string {
+    return `
+        <script>
+            (function() {
+                let inspecting = ${enabled ? 'true' : 'false'};
+                const overlay = document.createElement('div');
+                const label = document.createElement('div');
+                overlay.style.cssText = 'position:fixed;pointer-events:none;z-index:2147483647;display:none;' +
+                    'background:rgba(138,43,226,0.2);outline:1px solid #8a2be2;';
+                label.style.cssText = 'position:absolute;left:0;top:-20px;padding:1px 6px;white-space:nowrap;' +
+                    'font:11px monospace;color:#fff;background:#8a2be2;border-radius:2px;';
+                overlay.appendChild(label);
+
+                function inspectable(el) {
+                    return el && el.closest ? el.closest('[data-ag-line]') : null;
+                }
+
+                function describe(el) {
+                    let text = el.tagName.toLowerCase();
+                    if (el.id) {
+                        text += '#' + el.id;
+                    }
+                    if (typeof el.className === 'string' && el.className.trim()) {
+                        text += '.' + el.className.trim().split(/\\s+/).join('.');
+                    }
+                    return text;
+                }
+
+                function matchedRules(el) {
+                    const rules = [];
+                    function collect(ruleList, styleId) {
+                        Array.prototype.forEach.call(ruleList, function(rule) {
+                            if (rule.selectorText) {
+                                try {
+                                    if (el.matches(rule.selectorText)) {
+                                        rules.push({ styleId: styleId, selector: rule.selectorText });
+                                    }
+                                } catch (error) {
+                                    // Selectors the browser cannot match (e.g. some pseudo-elements)
+                                }
+                            } else if (rule.cssRules) {
+                                collect(rule.cssRules, styleId);
+                            }
+                        });
+                    }
+                    Array.prototype.forEach.call(document.styleSheets, function(sheet) {
+                        const owner = sheet.ownerNode;
+                        if (owner && owner.getAttribute && owner.getAttribute('data-ag-style')) {
+                            collect(sheet.cssRules, owner.getAttribute('data-ag-style'));
+                        }
+                    });
+                    return rules;
+                }
+
+                document.addEventListener('mousemove', function(e) {
+                    const el = inspecting ? inspectable(e.target) : null;
+                    if (!el) {
+                        overlay.style.display = 'none';
+                        return;
+                    }
+                    if (!overlay.parentNode) {
+                        document.documentElement.appendChild(overlay);
+                    }
+                    const rect = el.getBoundingClientRect();
+                    overlay.style.display = 'block';
+                    overlay.style.left = rect.left + 'px';
+                    overlay.style.top = rect.top + 'px';
+                    overlay.style.width = rect.width + 'px';
+                    overlay.style.height = rect.height + 'px';
+                    label.style.top = rect.top < 20 ? rect.height + 'px' : '-20px';
+                    label.textContent = describe(el);
+                }, true);
+
+                document.addEventListener('click', function(e) {
+                    const el = inspecting ? inspectable(e.target) : null;
+                    if (!el) {
+                        return;
+                    }
+                    e.preventDefault();
+                    e.stopImmediatePropagation();
+                    window.parent.postMessage({
+                        command: 'inspectElement',
+                        line: Number(el.getAttribute('data-ag-line')),
+                        tagName: el.tagName.toLowerCase(),
+                        description: describe(el),
+                        rules: matchedRules(el)
+                    }, '*');
+                }, true);
+
+                window.addEventListener('message', function(e) {
+                    const message = e.data;
+                    if (message && message.target === 'preview' && message.command === 'setInspectMode') {
+                        inspecting = message.enabled;
+                        overlay.style.display = 'none';
+                    }
+                });
+            })();
+        </script>
+    `;
+}
+
+/**
+ * Forwards console output, uncaught errors and unhandled promise rejections to the
+ * extension. Has to run before any script of the page, so it goes into the <head>.
+ */
+export function getConsoleScript(): string {
+    return `
+        <script>
+            (function() {
+                function serialize(value) {
+                    if (value instanceof Error) {
+                        return value.stack || String(value);
+                    }
+                    if (typeof value === 'string') {
+                        return value;
+                    }
+                    try {
+                        const json = JSON.stringify(value);
+                        return json === undefined ? String(value) : json;
+                    } catch (error) {
+                        return String(value);
+                    }
+                }
+
+                function send(entry) {
+                    entry.command = 'console';
+                    window.parent.postMessage(entry, '*');
+                }
+
+                ['log', 'info', 'warn', 'error', 'debug'].forEach(function(level) {
+                    const original = console[level];
+                    console[level] = function() {
+                        const args = Array.prototype.slice.call(arguments);
+                        const error = args.find(function(arg) { return arg instanceof Error; });
+                        send({
+                            level: level,
+                            message: args.map(serialize).join(' '),
+                            stack: level === 'error' ? (error ? error.stack : new Error().stack) : undefined
+                        });
+                        return original.apply(console, arguments);
+                    };
+                });
+
+                window.addEventListener('error', function(e) {
+                    // Resource load errors do not bubble and carry no message
+                    if (!e.message) {
+                        return;
+                    }
+                    send({
+                        level: 'error',
+                        message: 'Uncaught ' + e.message,
+                        stack: e.error && e.error.stack,
+                        filename: e.filename,
+                        lineno: e.lineno,
+                        colno: e.colno
+                    });
+                });
+
+                window.addEventListener('unhandledrejection', function(e) {
+                    const reason = e.reason;
+                    send({
+                        level: 'error',
+                        message: 'Unhandled promise rejection: ' + (reason instanceof Error ? reason.message : serialize(reason)),
+                        stack: reason instanceof Error ? reason.stack : undefined
+                    });
+                });
+            })();
+        </script>
+    `;
+}
+
+/**
+ * Accessibility audit of the live page: checks images, color contrast, heading order,
+ * form labels, landmarks and the names of focusable elements against the DOM and
+ * computed styles, reports the findings with their source line and outlines the
+ * elements. Clicking an outline's number asks the extension to open its source line.
+ */
+export function getAuditScript(enabled: boolean): string {
+    return `
+        <script>
+            (function() {
+                let auditing = ${enabled ? 'true' : 'false'};
+                let findings = [];
+                const container = document.createElement('div');
+                container.style.cssText = 'position:absolute;left:0;top:0;width:0;height:0;z-index:2147483646;';
+
+                function isHidden(el) {
+                    if (el.closest('[aria-hidden="true"], [hidden]') || el.getClientRects().length === 0) {
+                        return true;
+                    }
+                    const style = getComputedStyle(el);
+                    return style.visibility === 'hidden' || style.display === 'none';
+                }
+
+                function sourceLine(el) {
+                    const annotated = el.closest('[data-ag-line]');
+                    return annotated ? Number(annotated.getAttribute('data-ag-line')) : null;
+                }
+
+                function describe(el) {
+                    let text = el.tagName.toLowerCase();
+                    if (el.id) {
+                        text += '#' + el.id;
+                    }
+                    if (typeof el.className === 'string' && el.className.trim()) {
+                        text += '.' + el.className.trim().split(/\\s+/).join('.');
+                    }
+                    return text;
+                }
+
+                // Text content as a screen reader reads it: image alternatives count, hidden parts do not
+                function textAlternative(node) {
+                    let text = '';
+                    node.childNodes.forEach(function(child) {
+                        if (child.nodeType === Node.TEXT_NODE) {
+                            text += child.data;
+                        } else if (child.nodeType === Node.ELEMENT_NODE && child.getAttribute('aria-hidden') !== 'true'
+                            && !['INPUT', 'SELECT', 'TEXTAREA'].includes(child.tagName)) {
+                            // Controls are skipped, a label would otherwise ask its own control for its name
+                            text += child.tagName === 'IMG' ? (child.getAttribute('alt') || '') : ' ' + accessibleName(child) + ' ';
+                        }
+                    });
+                    return text.replace(/\\s+/g, ' ').trim();
+                }
+
+                function accessibleName(el) {
+                    const labelledBy = (el.getAttribute('aria-labelledby') || '').split(/\\s+/)
+                        .map(function(id) { const label = id && document.getElementById(id); return label ? label.textContent : ''; })
+                        .join(' ').trim();
+                    if (labelledBy) {
+                        return labelledBy;
+                    }
+                    const label = (el.getAttribute('aria-label') || '').trim();
+                    if (label) {
+                        return label;
+                    }
+                    if (el.labels && el.labels.length) {
+                        const text = Array.prototype.map.call(el.labels, textAlternative).join(' ').trim();
+                        if (text) {
+                            return text;
+                        }
+                    }
+                    if (el.tagName === 'IMG' || (el.tagName === 'INPUT' && el.type === 'image')) {
+                        return (el.getAttribute('alt') || '').trim();
+                    }
+                    if (el.tagName === 'INPUT' && ['submit', 'reset', 'button'].includes(el.type)) {
+                        return el.value || (el.type === 'button' ? '' : el.type);
+                    }
+                    if (!['INPUT', 'SELECT', 'TEXTAREA'].includes(el.tagName)) {
+                        const text = textAlternative(el);
+                        if (text) {
+                            return text;
+                        }
+                    }
+                    return (el.getAttribute('title') || '').trim();
+                }
+
+                function report(rule, severity, el, message) {
+                    findings.push({
+                        rule: rule,
+                        severity: severity,
+                        message: message,
+                        element: el,
+                        description: el ? describe(el) : '',
+                        line: el ? sourceLine(el) : null
+                    });
+                }
+
+                function checkImages(elements) {
+                    elements.forEach(function(el) {
+                        if (el.tagName === 'IMG' && !el.hasAttribute('alt') && !accessibleName(el)) {
+                            report('image-alt', 'error', el, 'Image has no alt text (use alt="" for decorative images)');
+                        } else if ((el.tagName === 'AREA' || (el.tagName === 'INPUT' && el.type === 'image')) && !accessibleName(el)) {
+                            report('image-alt', 'error', el, 'Image ' + (el.tagName === 'AREA' ? 'map area' : 'button') + ' has no alt text');
+                        } else if (el.getAttribute('role') === 'img' && !accessibleName(el)) {
+                            report('image-alt', 'error', el, 'Element with role="img" has no accessible name');
+                        }
+                    });
+                }
+
+                function parseColor(value) {
+                    const match = /rgba?\\(([^)]+)\\)/.exec(value);
+                    if (!match) {
+                        return null;
+                    }
+                    const parts = match[1].split(/[\\s,\\/]+/).filter(Boolean).map(parseFloat);
+                    return { r: parts[0], g: parts[1], b: parts[2], a: parts.length > 3 ? parts[3] : 1 };
+                }
+
+                function blend(top, bottom) {
+                    return {
+                        r: top.r * top.a + bottom.r * (1 - top.a),
+                        g: top.g * top.a + bottom.g * (1 - top.a),
+                        b: top.b * top.a + bottom.b * (1 - top.a),
+                        a: 1
+                    };
+                }
+
+                // The background behind an element, or null when an image or gradient is in the way
+                function backgroundOf(el) {
+                    const layers = [];
+                    for (let node = el; node && node.nodeType === Node.ELEMENT_NODE; node = node.parentElement) {
+                        const style = getComputedStyle(node);
+                        if (style.backgroundImage && style.backgroundImage !== 'none') {
+                            return null;
+                        }
+                        const color = parseColor(style.backgroundColor);
+                        if (color && color.a > 0) {
+                            layers.push(color);
+                            if (color.a >= 1) {
+                                break;
+                            }
+                        }
+                    }
+                    return layers.reduceRight(function(background, layer) {
+                        return blend(layer, background);
+                    }, { r: 255, g: 255, b: 255, a: 1 });
+                }
+
+                function luminance(color) {
+                    const channel = function(value) {
+                        value /= 255;
+                        return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+                    };
+                    return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+                }
+
+                function checkContrast(elements) {
+                    elements.forEach(function(el) {
+                        const hasText = Array.prototype.some.call(el.childNodes, function(child) {
+                            return child.nodeType === Node.TEXT_NODE && child.data.trim();
+                        });
+                        if (!hasText || isHidden(el)) {
+                            return;
+                        }
+                        const style = getComputedStyle(el);
+                        const background = backgroundOf(el);
+                        const foreground = parseColor(style.color);
+                        if (!background || !foreground || foreground.a === 0) {
+                            return;
+                        }
+                        const text = blend(foreground, background);
+                        const lighter = Math.max(luminance(text), luminance(background));
+                        const darker = Math.min(luminance(text), luminance(background));
+                        const ratio = (lighter + 0.05) / (darker + 0.05);
+
+                        // WCAG AA: 3:1 for large text (24px, or 18.66px bold), 4.5:1 otherwise
+                        const size = parseFloat(style.fontSize);
+                        const large = size >= 24 || (size >= 18.66 && Number(style.fontWeight) >= 700);
+                        const required = large ? 3 : 4.5;
+                        if (ratio < required) {
+                            report('color-contrast', 'error', el, 'Text contrast is ' + ratio.toFixed(2) + ':1, at least ' + required + ':1 is needed');
+                        }
+                    });
+                }
+
+                function checkHeadings(elements) {
+                    let previous = 0;
+                    elements.forEach(function(el) {
+                        const tagLevel = /^H([1-6])$/.exec(el.tagName);
+                        const level = el.getAttribute('role') === 'heading'
+                            ? Number(el.getAttribute('aria-level')) || 2
+                            : tagLevel && !el.hasAttribute('role') ? Number(tagLevel[1]) : 0;
+                        if (!level || isHidden(el)) {
+                            return;
+                        }
+                        if (!accessibleName(el)) {
+                            report('heading-order', 'error', el, 'Heading is empty');
+                        }
+                        if (previous === 0 && level !== 1) {
+                            report('heading-order', 'warning', el, 'First heading is level ' + level + ', expected level 1');
+                        } else if (level > previous + 1 && previous !== 0) {
+                            report('heading-order', 'warning', el, 'Heading level jumps from ' + previous + ' to ' + level);
+                        }
+                        previous = level;
+                    });
+                }
+
+                function checkFormLabels(elements) {
+                    elements.forEach(function(el) {
+                        const isControl = el.tagName === 'SELECT' || el.tagName === 'TEXTAREA'
+                            || (el.tagName === 'INPUT' && !['hidden', 'submit', 'reset', 'button', 'image'].includes(el.type));
+                        if (isControl && !isHidden(el) && !accessibleName(el)) {
+                            report('form-label', 'error', el, 'Form control has no label' +
+                                (el.getAttribute('placeholder') ? ' (a placeholder is not a label)' : ''));
+                        }
+                    });
+                }
+
+                function landmarkRole(el) {
+                    const role = el.getAttribute('role');
+                    if (role) {
+                        return role;
+                    }
+                    const inSection = el.parentElement && el.parentElement.closest('article, aside, main, nav, section');
+                    switch (el.tagName) {
+                        case 'MAIN': return 'main';
+                        case 'NAV': return 'navigation';
+                        case 'ASIDE': return 'complementary';
+                        case 'HEADER': return inSection ? '' : 'banner';
+                        case 'FOOTER': return inSection ? '' : 'contentinfo';
+                        case 'SECTION': return accessibleName(el) && (el.hasAttribute('aria-label') || el.hasAttribute('aria-labelledby')) ? 'region' : '';
+                        case 'FORM': return el.hasAttribute('aria-label') || el.hasAttribute('aria-labelledby') ? 'form' : '';
+                        default: return '';
+                    }
+                }
+
+                function checkLandmarks(elements) {
+                    const landmarks = ['banner', 'complementary', 'contentinfo', 'form', 'main', 'navigation', 'region', 'search'];
+                    const counts = {};
+                    elements.forEach(function(el) {
+                        const role = landmarkRole(el);
+                        if (landmarks.includes(role)) {
+                            counts[role] = (counts[role] || 0) + 1;
+                            if (counts[role] === 2 && ['main', 'banner', 'contentinfo'].includes(role)) {
+                                report('landmark', 'warning', el, 'Page has more than one "' + role + '" landmark');
+                            }
+                        }
+                    });
+                    if (!counts.main) {
+                        report('landmark', 'warning', null, 'Page has no main landmark (<main> or role="main")');
+                    }
+
+                    // Top-level content should be inside a landmark so it can be reached by landmark navigation
+                    Array.prototype.forEach.call(document.body.children, function(el) {
+                        if (['SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT'].includes(el.tagName) || isHidden(el)) {
+                            return;
+                        }
+                        const inLandmark = landmarks.includes(landmarkRole(el))
+                            || Array.prototype.some.call(el.querySelectorAll('*'), function(child) { return landmarks.includes(landmarkRole(child)); });
+                        const isSkipLink = el.tagName === 'A' && (el.getAttribute('href') || '').startsWith('#');
+                        if (!inLandmark && !isSkipLink && textAlternative(el)) {
+                            report('landmark', 'warning', el, 'Content is not inside a landmark');
+                        }
+                    });
+                }
+
+                function checkFocusableNames(elements) {
+                    const widgetRoles = ['button', 'link', 'checkbox', 'menuitem', 'option', 'radio', 'switch', 'tab'];
+                    elements.forEach(function(el) {
+                        const tabIndex = el.getAttribute('tabindex');
+                        const focusable = (el.tagName === 'A' && el.hasAttribute('href')) || el.tagName === 'BUTTON'
+                            || (el.tagName === 'INPUT' && el.type === 'button')
+                            || widgetRoles.includes(el.getAttribute('role'))
+                            || (tabIndex !== null && Number(tabIndex) >= 0 && !['INPUT', 'SELECT', 'TEXTAREA'].includes(el.tagName));
+                        if (focusable && !el.disabled && !isHidden(el) && !accessibleName(el)) {
+                            report('focusable-name', 'error', el, 'Focusable ' + (el.getAttribute('role') || el.tagName.toLowerCase()) + ' has no accessible name');
+                        }
+                    });
+                }
+
+                function drawOverlays() {
+                    container.textContent = '';
+                    findings.forEach(function(finding, index) {
+                        if (!finding.element || isHidden(finding.element)) {
+                            return;
+                        }
+                        const rect = finding.element.getBoundingClientRect();
+                        const color = finding.severity === 'error' ? '#e51400' : '#cca700';
+                        const box = document.createElement('div');
+                        box.dataset.finding = index;
+                        box.style.cssText = 'position:absolute;pointer-events:none;box-sizing:border-box;' +
+                            'border:2px dashed ' + color + ';left:' + (rect.left + window.scrollX) + 'px;top:' + (rect.top + window.scrollY) + 'px;' +
+                            'width:' + Math.max(rect.width, 4) + 'px;height:' + Math.max(rect.height, 4) + 'px;';
+                        const badge = document.createElement('div');
+                        badge.textContent = String(index + 1);
+                        badge.title = finding.message;
+                        badge.style.cssText = 'position:absolute;left:-2px;top:-18px;padding:0 4px;pointer-events:auto;cursor:pointer;' +
+                            'font:bold 11px/16px monospace;color:#fff;background:' + color + ';border-radius:2px;';
+                        badge.addEventListener('click', function(e) {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            window.parent.postMessage({ command: 'openAuditFinding', index: index }, '*');
+                        });
+                        box.appendChild(badge);
+                        container.appendChild(box);
+                    });
+                    if (!container.parentNode) {
+                        document.documentElement.appendChild(container);
+                    }
+                }
+
+                function runAudit() {
+                    findings = [];
+                    const elements = Array.prototype.slice.call(document.body ? document.body.querySelectorAll('*') : [])
+                        .filter(function(el) { return !['SCRIPT', 'STYLE', 'TEMPLATE'].includes(el.tagName); });
+                    checkImages(elements);
+                    checkContrast(elements);
+                    checkHeadings(elements);
+                    checkFormLabels(elements);
+                    checkLandmarks(elements);
+                    checkFocusableNames(elements);
+                    drawOverlays();
+                    window.parent.postMessage({
+                        command: 'auditResults',
+                        findings: findings.map(function(finding) {
+                            return {
+                                rule: finding.rule,
+                                severity: finding.severity,
+                                message: finding.message,
+                                description: finding.description,
+                                line: finding.line
+                            };
+                        })
+                    }, '*');
+                }
+
+                function clearAudit() {
+                    findings = [];
+                    container.textContent = '';
+                    container.remove();
+                }
+
+                window.addEventListener('load', function() {
+                    if (auditing) {
+                        runAudit();
+                    }
+                });
+
+                // The extension patched the page after an edit
+                window.addEventListener('ag-patched', function() {
+                    if (auditing) {
+                        runAudit();
+                    }
+                });
+
+                window.addEventListener('resize', function() {
+                    if (auditing && findings.length) {
+                        drawOverlays();
+                    }
+                });
+
+                window.addEventListener('message', function(e) {
+                    const message = e.data;
+                    if (!message || message.target !== 'preview') {
+                        return;
+                    }
+                    if (message.command === 'setAuditMode') {
+                        auditing = message.enabled;
+                        if (auditing) {
+                            runAudit();
+                        } else {
+                            clearAudit();
+                        }
+                    } else if (message.command === 'highlightAuditFinding') {
+                        const finding = findings[message.index];
+                        const box = container.querySelector('[data-finding="' + message.index + '"]');
+                        if (finding && finding.element) {
+                            finding.element.scrollIntoView({ block: 'center' });
+                        }
+                        if (box) {
+                            box.animate([{ boxShadow: '0 0 0 6px rgba(138,43,226,0.6)' }, { boxShadow: '0 0 0 0 rgba(138,43,226,0)' }],
+                                { duration: 1200 });
+                        }
+                    }
+                });
+            })();
+        </script>
+    `;
+}
+
+/**
+ * Answers fetch() and XMLHttpRequest calls that match a mock route through the
+ * extension, which reads the fixture and waits out the route's delay; other requests
+ * go to the network as usual. Inline pages have no real URL, so relative URLs are
+ * resolved against `pageUrl`. Routes are replaced when the mock config changes.
+ * Has to run before any script of the page, so it goes into the <head>.
+ */
+export function getMockScript(routes: { pattern: string; method: string; full: boolean; query: boolean }[], pageUrl: string): string {
+    return `
+        <script>
+            (function() {
+                // Outside the preview (a page opened in a browser) nothing would answer
+                if (window.parent === window) {
+                    return;
+                }
+                let routes = ${JSON.stringify(routes).replace(/</g, '\\u003c')};
+                const pageUrl = location.protocol === 'about:' ? ${JSON.stringify(pageUrl).replace(/</g, '\\u003c')} : location.href;
+                const pending = {};
+                let nextId = 0;
+
+                // The URL to send when a route matches the request, otherwise undefined
+                function match(method, url) {
+                    let parsed;
+                    try {
+                        parsed = new URL(url, pageUrl);
+                    } catch (error) {
+                        return undefined;
+                    }
+                    const matched = routes.some(function(route) {
+                        const target = (route.full ? parsed.origin : '') + parsed.pathname + (route.query ? parsed.search : '');
+                        return (!route.method || route.method === method) && new RegExp(route.pattern).test(target);
+                    });
+                    return matched ? parsed.href : undefined;
+                }
+
+                function request(method, url, body) {
+                    return new Promise(function(resolve) {
+                        const id = ++nextId;
+                        pending[id] = resolve;
+                        window.parent.postMessage({
+                            command: 'mockRequest',
+                            id: id,
+                            method: method,
+                            url: url,
+                            body: typeof body === 'string' ? body : undefined
+                        }, '*');
+                    });
+                }
+
+                window.addEventListener('message', function(e) {
+                    const message = e.data;
+                    if (!message || message.target !== 'preview') {
+                        return;
+                    }
+                    if (message.command === 'mockResponse' && pending[message.id]) {
+                        pending[message.id](message);
+                        delete pending[message.id];
+                    } else if (message.command === 'setMockRoutes') {
+                        routes = message.routes;
+                    }
+                });
+
+                const originalFetch = window.fetch;
+                window.fetch = function(input, init) {
+                    const isRequest = typeof Request !== 'undefined' && input instanceof Request;
+                    const method = String((init && init.method) || (isRequest ? input.method : 'GET')).toUpperCase();
+                    const url = match(method, isRequest ? input.url : String(input));
+                    if (!url) {
+                        return originalFetch.apply(this, arguments);
+                    }
+                    return request(method, url, init && init.body).then(function(answer) {
+                        if (answer.passThrough) {
+                            return originalFetch(input, init);
+                        }
+                        // Null body statuses must not have a body
+                        const body = [204, 205, 304].indexOf(answer.status) === -1 ? answer.body : null;
+                        return new Response(body, { status: answer.status, headers: answer.headers });
+                    });
+                };
+
+                const requests = new WeakMap();
+                const originalOpen = XMLHttpRequest.prototype.open;
+                const originalSend = XMLHttpRequest.prototype.send;
+
+                XMLHttpRequest.prototype.open = function(method, url) {
+                    method = String(method).toUpperCase();
+                    const mockUrl = match(method, String(url));
+                    if (mockUrl) {
+                        requests.set(this, { method: method, url: mockUrl, args: arguments });
+                    } else {
+                        requests.delete(this);
+                    }
+                    return originalOpen.apply(this, arguments);
+                };
+
+                XMLHttpRequest.prototype.send = function(body) {
+                    const mock = requests.get(this);
+                    if (!mock) {
+                        return originalSend.apply(this, arguments);
+                    }
+                    const xhr = this;
+                    request(mock.method, mock.url, body).then(function(answer) {
+                        if (answer.passThrough) {
+                            requests.delete(xhr);
+                            originalOpen.apply(xhr, mock.args);
+                            originalSend.call(xhr, body);
+                            return;
+                        }
+                        const headers = {};
+                        Object.keys(answer.headers).forEach(function(name) {
+                            headers[name.toLowerCase()] = answer.headers[name];
+                        });
+                        let response = answer.body;
+                        if (xhr.responseType === 'json') {
+                            try {
+                                response = JSON.parse(answer.body);
+                            } catch (error) {
+                                response = null;
+                            }
+                        } else if (xhr.responseType === 'blob') {
+                            response = new Blob([answer.body], { type: headers['content-type'] || '' });
+                        } else if (xhr.responseType === 'arraybuffer') {
+                            response = new TextEncoder().encode(answer.body).buffer;
+                        } else if (xhr.responseType === 'document') {
+                            response = new DOMParser().parseFromString(answer.body, 'text/html');
+                        }
+
+                        // The real request was never sent, so its state is provided on the instance
+                        const properties = {
+                            readyState: 4,
+                            status: answer.status,
+                            statusText: '',
+                            responseURL: mock.url,
+                            response: response,
+                            responseText: xhr.responseType === '' || xhr.responseType === 'text' ? answer.body : ''
+                        };
+                        Object.keys(properties).forEach(function(name) {
+                            Object.defineProperty(xhr, name, { configurable: true, value: properties[name] });
+                        });
+                        xhr.getResponseHeader = function(name) {
+                            const value = headers[String(name).toLowerCase()];
+                            return value === undefined ? null : value;
+                        };
+                        xhr.getAllResponseHeaders = function() {
+                            return Object.keys(headers).map(function(name) { return name + ': ' + headers[name] + '\\r\\n'; }).join('');
+                        };
+                        ['readystatechange', 'load', 'loadend'].forEach(function(type) {
+                            xhr.dispatchEvent(new ProgressEvent(type));
+                        });
+                    });
+                };
+            })();
+        </script>
+    `;
+}
+
+/**
+ * Lets the extension API run scripts in the page and query its DOM. Each request comes
+ * with a port of the preview's own, which the result (as JSON) or the error is sent back
+ * through.
+ */
+export function getAutomationScript(): string {
+    return `
+        <script>
+            (function() {
+                function run(message) {
+                    if (message.command === 'evaluate') {
+                        // Indirect eval runs the script in the page's global scope
+                        return (0, eval)(message.script);
+                    }
+                    return Array.prototype.map.call(document.querySelectorAll(message.selector), function(element) {
+                        // Source line marks are the preview's, not the page's
+                        const clone = element.cloneNode(true);
+                        clone.removeAttribute('data-ag-line');
+                        clone.querySelectorAll('[data-ag-line]').forEach(function(child) {
+                            child.removeAttribute('data-ag-line');
+                        });
+                        const box = element.getBoundingClientRect();
+                        return {
+                            outerHTML: clone.outerHTML,
+                            text: element.textContent,
+                            bounds: { x: box.x, y: box.y, width: box.width, height: box.height }
+                        };
+                    });
+                }
+
+                window.addEventListener('message', function(e) {
+                    const message = e.data;
+                    const port = e.ports && e.ports[0];
+                    if (e.source !== window.parent || !port || !message || message.target !== 'preview'
+                        || (message.command !== 'evaluate' && message.command !== 'queryElements')) {
+                        return;
+                    }
+                    new Promise(function(resolve) {
+                        resolve(run(message));
+                    }).then(function(value) {
+                        let json;
+                        try {
+                            json = JSON.stringify(value);
+                        } catch (error) {
+                            port.postMessage({ error: 'The result cannot be serialized: ' + error.message });
+                            return;
+                        }
+                        port.postMessage({ value: json });
+                    }, function(error) {
+                        port.postMessage({ error: error instanceof Error ? error.name + ': ' + error.message : String(error) });
+                    });
+                });
+            })();
+        </script>
+    `;
+}
@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { injectIntoHead } from './htmlUtils';
+
+const LIVE_RELOAD_PATH = '/__antigravity/livereload';
+
+export const MIME_TYPES: { [ext: string]: string } = {
+    '.html': 'text/html; charset=utf-8',
+    '.htm': 'text/html; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.mjs': 'text/javascript; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.map': 'application/json; charset=utf-8',
+    '.txt': 'text/plain; charset=utf-8',
+    '.xml': 'application/xml; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.avif': 'image/avif',
+    '.ico': 'image/x-icon',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+    '.ttf': 'font/ttf',
+    '.otf': 'font/otf',
+    '.mp4': 'video/mp4',
+    '.webm': 'video/webm',
+    '.mp3': 'audio/mpeg',
+    '.wav': 'audio/wav',
+    '.wasm': 'application/wasm',
+    '.webmanifest': 'application/manifest+json'
+};
+
+/**
+ * Serves a folder over loopback HTTP so previews behave like a real browser:
+ * relative fetch(), ES modules, service workers, cookies and absolute paths all work.
+ * Files are read through the workspace file system, so remote and virtual folders are
+ * served too. Unsaved editor content takes priority over what is stored. HTML pages are
+ * served with their includes and templates expanded, and get a small live-reload client
+ * injected that listens on a server-sent event stream and swaps changed stylesheets in
+ * place, plus any scripts the preview adds to pages.
+ *
+ * Only the preview's pages may read files: requests must be for the loopback host (so
+ * DNS rebinding gets nowhere) and carry a random token in the path. Root-relative URLs
+ * of a served page lack the token; they are accepted when the page's URL, as sent in the
+ * Referer, has it.
+ */
+export class PreviewServer implements vscode.Disposable {
+    private _server: http.Server | undefined;
+    private _port: number = 0;
+    private _externalUri: vscode.Uri | undefined;
+    private readonly _clients = new Set<http.ServerResponse>();
+    private readonly _token = crypto.randomBytes(16).toString('hex');
+
+    constructor(
+        public readonly root: vscode.Uri,
+        // Scripts to run before the scripts of an HTML page
+        private readonly _getPageScripts?: (uri: vscode.Uri) => Promise<string>,
+        // Expands the includes and templates of an HTML page
+        private readonly _expandPage?: (html: string, uri: vscode.Uri) => Promise<string>
+    ) { }
+
+    public get port(): number {
+        return this._port;
+    }
+
+    public async start(preferredPort: number = 0): Promise<void> {
+        if (this._server) {
+            return;
+        }
+
+        const server = http.createServer((req, res) => this._handleRequest(req, res).catch(error => {
+            console.error(`Failed to serve ${req.url}`, error);
+            if (!res.headersSent) {
+                this._sendError(res, 500, 'Internal Server Error');
+            }
+        }));
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(preferredPort, '127.0.0.1', () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+
+        this._server = server;
+        this._port = (server.address() as { port: number }).port;
+        this._externalUri = await vscode.env.asExternalUri(vscode.Uri.parse(`http://127.0.0.1:${this._port}/`));
+    }
+
+    public contains(uri: vscode.Uri): boolean {
+        const relative = this._relativePath(uri);
+        return relative !== undefined && !relative.startsWith('..') && !path.posix.isAbsolute(relative);
+    }
+
+    /**
+     * Returns the externally reachable URL of a file below the server root.
+     */
+    public urlFor(uri: vscode.Uri): string {
+        const relative = (this._relativePath(uri) ?? '')
+            .split('/')
+            .map(segment => encodeURIComponent(segment))
+            .join('/');
+        const base = (this._externalUri ?? vscode.Uri.parse(`http://127.0.0.1:${this._port}/`)).toString();
+        return base.replace(/\/?$/, '/') + this._token + '/' + relative;
+    }
+
+    /**
+     * Tells every connected page that a file changed so it can reload.
+     */
+    public notifyChange(uri: vscode.Uri) {
+        const payload = JSON.stringify({
+            type: 'change',
+            path: '/' + (this._relativePath(uri) ?? '')
+        });
+        this._clients.forEach(client => client.write(`data: ${payload}\n\n`));
+    }
+
+    /**
+     * The path of a file relative to the root with '/' separators, undefined when it is
+     * on another file system. Local paths are compared as the platform does (e.g. case).
+     */
+    private _relativePath(uri: vscode.Uri): string | undefined {
+        if (uri.scheme !== this.root.scheme || uri.authority !== this.root.authority) {
+            return undefined;
+        }
+        return uri.scheme === 'file'
+            ? path.relative(this.root.fsPath, uri.fsPath).split(path.sep).join('/')
+            : path.posix.relative(this.root.path, uri.path);
+    }
+
+    private async _handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        const url = new URL(req.url || '/', `http://127.0.0.1:${this._port}`);
+        if (!this._isServerHost(req.headers.host)) {
+            this._sendError(res, 403, 'Forbidden');
+            return;
+        }
+
+        const prefix = `/${this._token}`;
+        let pathname: string;
+        if (url.pathname === prefix) {
+            res.writeHead(301, { 'Location': prefix + '/' + url.search });
+            res.end();
+            return;
+        } else if (url.pathname.startsWith(prefix + '/')) {
+            pathname = url.pathname.slice(prefix.length);
+        } else if (this._isFromServedPage(req.headers.referer)) {
+            pathname = url.pathname;
+        } else {
+            this._sendError(res, 403, 'Forbidden');
+            return;
+        }
+
+        if (pathname === LIVE_RELOAD_PATH) {
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive'
+            });
+            res.write(': connected\n\n');
+            this._clients.add(res);
+            req.on('close', () => this._clients.delete(res));
+            return;
+        }
+
+        let fileUri: vscode.Uri;
+        try {
+            fileUri = vscode.Uri.joinPath(this.root, decodeURIComponent(pathname));
+        } catch {
+            this._sendError(res, 400, 'Bad Request');
+            return;
+        }
+
+        // Never serve anything outside the root folder
+        if (!this.contains(fileUri)) {
+            this._sendError(res, 403, 'Forbidden');
+            return;
+        }
+
+        let stat = await this._stat(fileUri);
+        if (stat && stat.type & vscode.FileType.Directory) {
+            if (!url.pathname.endsWith('/')) {
+                res.writeHead(301, { 'Location': url.pathname + '/' + url.search });
+                res.end();
+                return;
+            }
+            fileUri = vscode.Uri.joinPath(fileUri, 'index.html');
+            stat = await this._stat(fileUri);
+        }
+
+        const ext = path.posix.extname(fileUri.path).toLowerCase();
+        const contentType = MIME_TYPES[ext] || 'application/octet-stream';
+        const openDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === fileUri.toString());
+
+        let body: Buffer;
+        if (openDocument) {
+            body = Buffer.from(openDocument.getText(), 'utf-8');
+        } else if (stat) {
+            try {
+                body = Buffer.from(await vscode.workspace.fs.readFile(fileUri));
+            } catch (error) {
+                console.error(`Failed to read file: ${fileUri.toString()}`, error);
+                this._sendError(res, 500, 'Internal Server Error');
+                return;
+            }
+        } else {
+            this._sendError(res, 404, 'Not Found');
+            return;
+        }
+
+        if (ext === '.html' || ext === '.htm') {
+            let html = body.toString('utf-8');
+            if (this._expandPage) {
+                html = await this._expandPage(html, fileUri);
+            }
+            if (this._getPageScripts) {
+                html = injectIntoHead(html, await this._getPageScripts(fileUri));
+            }
+            body = Buffer.from(this._injectLiveReload(html), 'utf-8');
+        }
+
+        res.writeHead(200, {
+            'Content-Type': contentType,
+            'Content-Length': body.length,
+            'Cache-Control': 'no-store'
+        });
+        res.end(req.method === 'HEAD' ? undefined : body);
+    }
+
+    /**
+     * Whether a Host header names this server: the loopback address, or the address
+     * the port is forwarded to in remote windows.
+     */
+    private _isServerHost(host: string | undefined): boolean {
+        const hosts = [`127.0.0.1:${this._port}`, `localhost:${this._port}`, this._externalUri?.authority.toLowerCase()];
+        return !!host && hosts.includes(host.toLowerCase());
+    }
+
+    private _isFromServedPage(referer: string | undefined): boolean {
+        if (!referer) {
+            return false;
+        }
+        try {
+            const url = new URL(referer);
+            return this._isServerHost(url.host) && url.pathname.startsWith(`/${this._token}/`);
+        } catch {
+            return false;
+        }
+    }
+
+    private async _stat(uri: vscode.Uri): Promise<vscode.FileStat | undefined> {
+        try {
+            return await vscode.workspace.fs.stat(uri);
+        } catch {
+            return undefined;
+        }
+    }
+
+    private _injectLiveReload(html: string): string {
+        const liveReloadScript = `
+            <script>
+                (function() {
+                    const prefix = '/${this._token}';
+                    const source = new EventSource(prefix + '${LIVE_RELOAD_PATH}');
+                    source.onmessage = function(e) {
+                        const change = JSON.parse(e.data);
+
+                        // Swap changed stylesheets in place instead of reloading the page
+                        if (/\\.css$/i.test(change.path)) {
+                            let swapped = false;
+                            document.querySelectorAll('link[rel="stylesheet"]').forEach(function(link) {
+                                const url = new URL(link.href);
+                                const linkPath = decodeURIComponent(url.pathname);
+                                if (linkPath === change.path || linkPath === prefix + change.path) {
+                                    url.searchParams.set('ag-reload', Date.now().toString());
+                                    link.href = url.toString();
+                                    swapped = true;
+                                }
+                            });
+                            if (swapped) {
+                                return;
+                            }
+                        }
+                        location.reload();
+                    };
+                })();
+            </script>
+        `;
+
+        if (html.includes('</body>')) {
+            return html.replace('</body>', liveReloadScript + '</body>');
+        }
+        return html + liveReloadScript;
+    }
+
+    private _sendError(res: http.ServerResponse, status: number, message: string) {
+        res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end(`${status} ${message}`);
+    }
+
+    public dispose() {
+        this._clients.forEach(client => client.end());
+        this._clients.clear();
+        this._server?.close();
+        this._server = undefined;
+    }
+}
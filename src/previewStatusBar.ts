@@ -0,0 +1,48 @@
+import * as vscode from 'vscode';
+import { PreviewTabManager } from './previewTabManager';
+import { LOCATION_LABELS, describeTab, getTabIcon } from './tabSwitcher';
+
+/**
+ * Status bar item showing the active tab of the preview used last and its state.
+ * Hidden while no preview is open; clicking it lists all preview tabs.
+ */
+export class PreviewStatusBar implements vscode.Disposable {
+    private readonly _item = vscode.window.createStatusBarItem('antigravity.preview', vscode.StatusBarAlignment.Right, 100);
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly _manager: PreviewTabManager) {
+        this._item.name = 'Antigravity Preview';
+        this._item.command = 'antigravity.showTabs';
+        this._manager.onDidUpdateTabs(() => this._update(), null, this._disposables);
+        this._update();
+    }
+
+    private _update() {
+        const location = this._manager.activeLocation;
+        const tab = location && this._manager.getTab(this._manager.getActiveTabId(location));
+        if (!location || !tab) {
+            this._item.hide();
+            return;
+        }
+
+        const tabs = this._manager.tabsIn(location);
+        const title = tab.title || 'Untitled';
+        this._item.text = `${getTabIcon(tab)} ${title}` + (tab.problems > 0 ? ` $(warning) ${tab.problems}` : '');
+        this._item.tooltip = [
+            `Antigravity Preview: ${title}`,
+            ...(tab.uri ? [vscode.workspace.asRelativePath(tab.uri)] : []),
+            `${LOCATION_LABELS[location]}, tab ${tabs.indexOf(tab) + 1} of ${tabs.length}`,
+            describeTab(tab),
+            '',
+            'Click to show all preview tabs'
+        ].join('\n');
+        this._item.show();
+    }
+
+    public dispose() {
+        this._item.dispose();
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
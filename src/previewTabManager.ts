@@ -0,0 +1,475 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export type TabMode = 'follow' | 'locked';
+
+// Whether the page's own scripts may run; untrusted pages only get the preview's scripts
+export type SandboxProfile = 'trusted' | 'untrusted';
+
+// Where a tab is shown: the editor panel or the preview view
+export type PreviewLocation = 'panel' | 'view';
+
+// How a page uses a file: stylesheets can be hot-swapped, anything else needs a new render.
+// Partials are files included into the page by a template (see TemplateRenderer).
+export type DependencyKind = 'stylesheet' | 'script' | 'resource' | 'partial';
+
+export interface Viewport {
+    // One of VIEWPORT_PRESETS, or 'custom'
+    preset: string;
+    width: number;
+    height: number;
+    rotated: boolean;
+    fit: boolean;
+}
+
+// Entries kept in a tab's history for back and forward; the oldest go first
+const MAX_HISTORY_ENTRIES = 50;
+
+export const VIEWPORT_PRESETS: { id: string; label: string; width: number; height: number }[] = [
+    { id: 'responsive', label: 'Responsive', width: 0, height: 0 },
+    { id: 'iphone-se', label: 'iPhone SE', width: 375, height: 667 },
+    { id: 'iphone-15', label: 'iPhone 15', width: 393, height: 852 },
+    { id: 'pixel-7', label: 'Pixel 7', width: 412, height: 915 },
+    { id: 'ipad-mini', label: 'iPad Mini', width: 768, height: 1024 },
+    { id: 'ipad-pro', label: 'iPad Pro 12.9"', width: 1024, height: 1366 },
+    { id: 'laptop', label: 'Laptop', width: 1366, height: 768 },
+    { id: 'desktop', label: 'Desktop', width: 1920, height: 1080 }
+];
+
+export interface HistoryEntry {
+    uri: vscode.Uri;
+    // Element id to scroll to, without '#'
+    fragment: string;
+}
+
+export interface PreviewTab {
+    id: string;
+    title: string;
+    uri?: vscode.Uri;
+    content: string;
+    location: PreviewLocation;
+    // 'follow' tabs track the active editor, 'locked' tabs stay on their file
+    mode: TabMode;
+    // Pinned tabs come first and keep their page: they do not follow the editor and open links in new tabs
+    pinned: boolean;
+    scrollSync: boolean;
+    viewport: Viewport;
+    // Only applies in trusted workspaces, pages of untrusted ones are always untrusted
+    sandbox: SandboxProfile;
+    // Frozen rendered HTML of a snapshot tab; snapshots never update
+    snapshot?: string;
+    // Files the last render of the tab used (including missing ones), by uri
+    dependencies: Map<string, DependencyKind>;
+    // Pages shown in the tab, for back and forward; the current one at historyIndex
+    history: HistoryEntry[];
+    historyIndex: number;
+    // Number of markup problems found in the last render
+    problems: number;
+}
+
+// What is kept in workspace state to restore the tabs after a window reload
+interface SavedTab {
+    uri?: string;
+    title: string;
+    // Missing in state saved before the preview view existed
+    location?: PreviewLocation;
+    mode: TabMode;
+    // Missing in state saved before tabs could be pinned
+    pinned?: boolean;
+    scrollSync: boolean;
+    viewport: Viewport;
+    // Missing in state saved before sandbox profiles existed
+    sandbox?: SandboxProfile;
+}
+
+interface SavedPreviewState {
+    tabs: SavedTab[];
+    // Index of the active tab among the panel's tabs
+    activeIndex: number;
+    activeViewIndex?: number;
+}
+
+const STATE_KEY = 'antigravity.previewTabs';
+
+// How many closed tabs can be reopened
+const MAX_CLOSED_TABS = 20;
+
+/**
+ * The tabs of the editor panel and the preview view. Both render the tabs at their
+ * location and keep their own layout, while tabs themselves live here, so they can
+ * move between the two and are saved together in workspace state.
+ */
+export class PreviewTabManager implements vscode.Disposable {
+    private _tabs: PreviewTab[] = [];
+    private _tabCounter: number = 0;
+    private readonly _activeTabIds = new Map<PreviewLocation, string>();
+    // Closed tabs with their position at their location, the last closed at the end
+    private readonly _closedTabs: { tab: PreviewTab; index: number }[] = [];
+    // Locations with an open preview, and the one the user worked in last
+    private readonly _openLocations = new Set<PreviewLocation>();
+    private _lastUsedLocation: PreviewLocation = 'panel';
+    private readonly _onDidChangeTabs = new vscode.EventEmitter<void>();
+    private readonly _onDidUpdateTabs = new vscode.EventEmitter<void>();
+    private readonly _onDidRenderTab = new vscode.EventEmitter<{ tab: PreviewTab; patched: boolean }>();
+
+    /**
+     * Fires when tabs changed outside of the panel and view's own actions:
+     * a tab moved, or restored tabs finished loading their documents.
+     */
+    public readonly onDidChangeTabs = this._onDidChangeTabs.event;
+
+    /**
+     * Fires when the panel or the view shows changed tabs, or opens, closes or is used,
+     * for what shows the tabs outside of the preview (the status bar).
+     */
+    public readonly onDidUpdateTabs = this._onDidUpdateTabs.event;
+
+    /**
+     * Fires when the page of an active tab finished loading in its preview, or was patched.
+     */
+    public readonly onDidRenderTab = this._onDidRenderTab.event;
+
+    constructor(private readonly _workspaceState: vscode.Memento) {
+        const savedState = this._workspaceState.get<SavedPreviewState>(STATE_KEY);
+        if (savedState && savedState.tabs.length > 0) {
+            this._restoreTabs(savedState);
+        }
+    }
+
+    public get tabs(): PreviewTab[] {
+        return [...this._tabs];
+    }
+
+    public tabsIn(location: PreviewLocation): PreviewTab[] {
+        return this._tabs.filter(t => t.location === location);
+    }
+
+    public getTab(tabId: string): PreviewTab | undefined {
+        return this._tabs.find(t => t.id === tabId);
+    }
+
+    public getActiveTabId(location: PreviewLocation): string {
+        return this._activeTabIds.get(location) ?? '';
+    }
+
+    public setActiveTabId(location: PreviewLocation, tabId: string) {
+        this._activeTabIds.set(location, tabId);
+    }
+
+    /**
+     * The location of the preview the user worked in last, or of any open one.
+     * Undefined when no preview is open.
+     */
+    public get activeLocation(): PreviewLocation | undefined {
+        if (this._openLocations.has(this._lastUsedLocation)) {
+            return this._lastUsedLocation;
+        }
+        return this._openLocations.has('panel') ? 'panel' : this._openLocations.has('view') ? 'view' : undefined;
+    }
+
+    public isLocationOpen(location: PreviewLocation): boolean {
+        return this._openLocations.has(location);
+    }
+
+    public setLocationOpen(location: PreviewLocation, open: boolean) {
+        if (open) {
+            this._openLocations.add(location);
+        } else {
+            this._openLocations.delete(location);
+        }
+        this._onDidUpdateTabs.fire();
+    }
+
+    public setLocationUsed(location: PreviewLocation) {
+        if (this._lastUsedLocation !== location) {
+            this._lastUsedLocation = location;
+            this._onDidUpdateTabs.fire();
+        }
+    }
+
+    /**
+     * Called by the panel and the view whenever they show a change to their tabs.
+     */
+    public notifyTabsUpdated() {
+        this._onDidUpdateTabs.fire();
+    }
+
+    public notifyTabRendered(tab: PreviewTab, patched: boolean) {
+        this._onDidRenderTab.fire({ tab: tab, patched: patched });
+    }
+
+    public newTabId(): string {
+        this._tabCounter++;
+        return `tab-${this._tabCounter}`;
+    }
+
+    /**
+     * Adds an empty tab in follow mode at the end of a location and makes it active.
+     */
+    public createTab(location: PreviewLocation): PreviewTab {
+        const id = this.newTabId();
+        const tab: PreviewTab = {
+            id: id,
+            title: `Tab ${this._tabCounter}`,
+            content: '',
+            location: location,
+            mode: 'follow',
+            pinned: false,
+            scrollSync: vscode.workspace.getConfiguration('antigravity').get<boolean>('scrollSync', true),
+            viewport: { preset: 'responsive', width: 0, height: 0, rotated: false, fit: true },
+            sandbox: this._defaultSandbox(),
+            dependencies: new Map<string, DependencyKind>(),
+            history: [],
+            historyIndex: -1,
+            problems: 0
+        };
+        this._tabs.push(tab);
+        this._activeTabIds.set(location, id);
+        return tab;
+    }
+
+    /**
+     * Inserts a tab right after another one, or at the end of its location.
+     */
+    public insertTab(tab: PreviewTab, after?: PreviewTab) {
+        const index = after ? this._tabs.indexOf(after) : -1;
+        if (index === -1) {
+            this._tabs.push(tab);
+        } else {
+            this._tabs.splice(index + 1, 0, tab);
+        }
+        this._keepPinnedFirst();
+    }
+
+    /**
+     * Removes a tab. Tabs that showed a page can be reopened (see reopenClosedTab).
+     */
+    public removeTab(tabId: string) {
+        const tab = this.getTab(tabId);
+        if (tab && (tab.uri || tab.snapshot !== undefined)) {
+            this._closedTabs.push({ tab: tab, index: this.tabsIn(tab.location).indexOf(tab) });
+            this._closedTabs.splice(0, this._closedTabs.length - MAX_CLOSED_TABS);
+        }
+        this._tabs = this._tabs.filter(t => t.id !== tabId);
+    }
+
+    /**
+     * Brings back the tab closed last, at its old position if it is reopened where it
+     * was closed, and makes it active. Its content is as it was when it was closed.
+     */
+    public reopenClosedTab(location: PreviewLocation): PreviewTab | undefined {
+        const closed = this._closedTabs.pop();
+        if (!closed) {
+            return undefined;
+        }
+
+        const tab = closed.tab;
+        const before = tab.location === location ? this.tabsIn(location)[closed.index] : undefined;
+        tab.location = location;
+        tab.dependencies.clear();
+        const index = before ? this._tabs.indexOf(before) : -1;
+        if (index === -1) {
+            this._tabs.push(tab);
+        } else {
+            this._tabs.splice(index, 0, tab);
+        }
+        this._keepPinnedFirst();
+        this._activeTabIds.set(location, tab.id);
+        this.saveState();
+        return tab;
+    }
+
+    /**
+     * Moves a tab in front of another tab of its location, or to the end without one.
+     * Pinned tabs stay in front of the others whatever the drop position.
+     */
+    public reorderTab(tabId: string, beforeTabId?: string) {
+        const tab = this.getTab(tabId);
+        const before = beforeTabId ? this.getTab(beforeTabId) : undefined;
+        if (!tab || tab === before || (before && before.location !== tab.location)) {
+            return;
+        }
+
+        this._tabs = this._tabs.filter(t => t !== tab);
+        const index = before ? this._tabs.indexOf(before) : -1;
+        if (index === -1) {
+            this._tabs.push(tab);
+        } else {
+            this._tabs.splice(index, 0, tab);
+        }
+        this._keepPinnedFirst();
+        this.saveState();
+    }
+
+    public setPinned(tab: PreviewTab, pinned: boolean) {
+        tab.pinned = pinned;
+        this._keepPinnedFirst();
+        this.saveState();
+    }
+
+    /**
+     * Adds a copy of a tab right after it, showing the same page with the same history
+     * and settings, and makes it active. The copy is not pinned.
+     */
+    public duplicateTab(tab: PreviewTab): PreviewTab {
+        const copy: PreviewTab = {
+            ...tab,
+            id: this.newTabId(),
+            pinned: false,
+            viewport: { ...tab.viewport },
+            dependencies: new Map<string, DependencyKind>(),
+            history: tab.history.map(entry => ({ ...entry }))
+        };
+        this.insertTab(copy, tab);
+        this._activeTabIds.set(copy.location, copy.id);
+        this.saveState();
+        return copy;
+    }
+
+    private _keepPinnedFirst() {
+        // A stable partition, so the order within each location is kept otherwise
+        this._tabs = [...this._tabs.filter(t => t.pinned), ...this._tabs.filter(t => !t.pinned)];
+    }
+
+    /**
+     * Moves a tab to the other location, where it becomes the active tab.
+     */
+    public moveTab(tabId: string, location: PreviewLocation) {
+        const tab = this.getTab(tabId);
+        if (!tab || tab.location === location) {
+            return;
+        }
+
+        const source = tab.location;
+        const remaining = this.tabsIn(source).filter(t => t.id !== tabId);
+        if (this.getActiveTabId(source) === tabId) {
+            const index = this.tabsIn(source).indexOf(tab);
+            this._activeTabIds.set(source, remaining[Math.max(0, index - 1)]?.id ?? '');
+        }
+
+        // Append to the end of the target location
+        this._tabs = this._tabs.filter(t => t !== tab);
+        tab.location = location;
+        tab.dependencies.clear();
+        this._tabs.push(tab);
+        this._keepPinnedFirst();
+        this._activeTabIds.set(location, tabId);
+
+        this.saveState();
+        this._onDidChangeTabs.fire();
+    }
+
+    /**
+     * Shows a document in a tab. A different document than the current one is
+     * added to the tab's history.
+     */
+    public bindTab(tab: PreviewTab, document: vscode.TextDocument) {
+        if (tab.history[tab.historyIndex]?.uri.toString() !== document.uri.toString()) {
+            this._pushHistory(tab, { uri: document.uri, fragment: '' });
+        }
+        tab.uri = document.uri;
+        tab.title = path.basename(document.fileName);
+        tab.content = document.getText();
+    }
+
+    /**
+     * Shows a document in a tab like following a link: it becomes a new history
+     * entry even when only the fragment differs.
+     */
+    public navigateTab(tab: PreviewTab, document: vscode.TextDocument, fragment: string) {
+        const current = tab.history[tab.historyIndex];
+        if (current?.uri.toString() !== document.uri.toString() || current.fragment !== fragment) {
+            this._pushHistory(tab, { uri: document.uri, fragment: fragment });
+        }
+        this.bindTab(tab, document);
+    }
+
+    /**
+     * Records a fragment navigation that happened inside the page.
+     */
+    public navigateToFragment(tab: PreviewTab, fragment: string) {
+        const current = tab.history[tab.historyIndex];
+        if (current && current.fragment !== fragment) {
+            this._pushHistory(tab, { uri: current.uri, fragment: fragment });
+        }
+    }
+
+    private _pushHistory(tab: PreviewTab, entry: HistoryEntry) {
+        // Navigating drops the entries ahead, like in a browser
+        tab.history.splice(tab.historyIndex + 1, tab.history.length, entry);
+        tab.history.splice(0, Math.max(0, tab.history.length - MAX_HISTORY_ENTRIES));
+        tab.historyIndex = tab.history.length - 1;
+    }
+
+    public saveState() {
+        // Snapshots only live as long as the window
+        const tabs = this._tabs.filter(t => t.snapshot === undefined);
+        const activeIndex = (location: PreviewLocation) =>
+            Math.max(0, tabs.filter(t => t.location === location).findIndex(t => t.id === this.getActiveTabId(location)));
+        const state: SavedPreviewState = {
+            tabs: tabs.map(tab => ({
+                uri: tab.uri?.toString(),
+                title: tab.title,
+                location: tab.location,
+                mode: tab.mode,
+                pinned: tab.pinned,
+                scrollSync: tab.scrollSync,
+                viewport: tab.viewport,
+                sandbox: tab.sandbox
+            })),
+            activeIndex: activeIndex('panel'),
+            activeViewIndex: activeIndex('view')
+        };
+        this._workspaceState.update(STATE_KEY, state);
+    }
+
+    private _restoreTabs(state: SavedPreviewState) {
+        this._tabs = state.tabs.map(saved => ({
+            id: this.newTabId(),
+            title: saved.title,
+            uri: saved.uri ? vscode.Uri.parse(saved.uri) : undefined,
+            content: '',
+            location: saved.location ?? 'panel',
+            mode: saved.mode,
+            pinned: saved.pinned ?? false,
+            scrollSync: saved.scrollSync,
+            viewport: saved.viewport,
+            sandbox: saved.sandbox ?? this._defaultSandbox(),
+            dependencies: new Map<string, DependencyKind>(),
+            history: [],
+            historyIndex: -1,
+            problems: 0
+        }));
+
+        const restoreActive = (location: PreviewLocation, index: number) => {
+            const tabs = this.tabsIn(location);
+            if (tabs.length > 0) {
+                this._activeTabIds.set(location, tabs[Math.min(Math.max(0, index), tabs.length - 1)].id);
+            }
+        };
+        restoreActive('panel', state.activeIndex);
+        restoreActive('view', state.activeViewIndex ?? 0);
+
+        // Open documents give their current (possibly unsaved) text, others are read from disk
+        Promise.all(this._tabs.map(async tab => {
+            if (!tab.uri) {
+                return;
+            }
+            try {
+                this.bindTab(tab, await vscode.workspace.openTextDocument(tab.uri));
+            } catch (error) {
+                console.error(`Failed to restore preview of ${tab.uri.toString()}`, error);
+            }
+        })).then(() => this._onDidChangeTabs.fire());
+    }
+
+    private _defaultSandbox(): SandboxProfile {
+        return vscode.workspace.getConfiguration('antigravity').get<SandboxProfile>('sandbox', 'trusted');
+    }
+
+    public dispose() {
+        this._onDidChangeTabs.dispose();
+        this._onDidUpdateTabs.dispose();
+        this._onDidRenderTab.dispose();
+    }
+}
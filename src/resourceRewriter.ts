@@ -0,0 +1,801 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parse, DefaultTreeAdapterTypes } from 'parse5';
+import postcss = require('postcss');
+import valueParser = require('postcss-value-parser');
+import { MIME_TYPES } from './previewServer';
+import { collectElements, escapeAttribute } from './htmlUtils';
+import { ImportMap, ModuleCache, ModuleGraph, findModuleImports, getSpecifierKind } from './moduleResolver';
+
+type Element = DefaultTreeAdapterTypes.Element;
+type TextNode = DefaultTreeAdapterTypes.TextNode;
+type Location = NonNullable<Element['sourceCodeLocation']>;
+
+export interface RewriteOptions {
+    // Inline local stylesheets and classic scripts instead of pointing at them
+    inline: boolean;
+    // Returns the `//# sourceURL` name for an inlined script, if it should get one
+    nameScript?: (uri: vscode.Uri) => string | undefined;
+    // Embed every other local file as a data: URI, for pages that leave the workspace
+    embed?: boolean;
+    // Give every script this nonce, so a nonce-based Content-Security-Policy lets it run
+    scriptNonce?: string;
+    // Make ES modules load: relative imports of inline modules point at the files, and an
+    // import map maps bare specifiers to the workspace's node_modules (see ModuleGraph).
+    // Module files are read through the cache.
+    modules?: ModuleCache;
+}
+
+export interface MissingResource {
+    reference: string;
+    // Where the reference points to, for local references
+    uri?: vscode.Uri;
+    // Zero-based line of the referencing tag in the document
+    line: number;
+}
+
+export interface RewriteResult {
+    html: string;
+    // Local stylesheets and scripts whose content was inlined, and the local ES modules
+    // the page imports
+    stylesheets: vscode.Uri[];
+    // Local stylesheets pulled in with @import, inlined into the stylesheet importing them
+    stylesheetImports: vscode.Uri[];
+    scripts: vscode.Uri[];
+    // Every other local file the page references
+    resources: vscode.Uri[];
+    missing: MissingResource[];
+}
+
+interface Edit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+// Attributes holding a single URL, by element (`*` applies to every element)
+const URL_ATTRIBUTES: { [tagName: string]: string[] } = {
+    '*': ['background'],
+    'audio': ['src'],
+    'embed': ['src'],
+    'iframe': ['src'],
+    'image': ['href', 'xlink:href'],
+    'img': ['src'],
+    'input': ['src'],
+    'link': ['href'],
+    'object': ['data'],
+    'script': ['src'],
+    'source': ['src'],
+    'track': ['src'],
+    'use': ['href', 'xlink:href'],
+    'video': ['src', 'poster']
+};
+
+/**
+ * Reads a resource through the workspace file system, so it works for remote and
+ * virtual workspaces too, preferring unsaved editor content over the stored file.
+ */
+export async function readLocalResource(uri: vscode.Uri): Promise<string | undefined> {
+    const openDocument = findOpenDocument(uri);
+    if (openDocument) {
+        return openDocument.getText();
+    }
+    const data = await readFile(uri);
+    return data && Buffer.from(data).toString('utf-8');
+}
+
+/**
+ * Whether a resource exists as an open document or in the workspace file system.
+ */
+export async function resourceExists(uri: vscode.Uri): Promise<boolean> {
+    if (findOpenDocument(uri)) {
+        return true;
+    }
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The directory relative references of a document resolve against. Untitled documents
+ * have none, their references resolve against the (first) workspace folder.
+ */
+export function getBaseDirectory(documentUri: vscode.Uri): vscode.Uri {
+    if (documentUri.scheme === 'untitled') {
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        if (folder) {
+            return folder.uri;
+        }
+    }
+    return vscode.Uri.joinPath(documentUri, '..');
+}
+
+function findOpenDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+}
+
+async function readFile(uri: vscode.Uri): Promise<Uint8Array | undefined> {
+    try {
+        if ((await vscode.workspace.fs.stat(uri)).type & vscode.FileType.Directory) {
+            return undefined;
+        }
+        return await vscode.workspace.fs.readFile(uri);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Rewrites every local resource reference of an HTML document (and of the CSS
+ * inside it) so it loads in a webview: attributes like `src`, `srcset`, `poster`,
+ * `<object data>`, inline `style` attributes, `<style>` blocks and `<base href>`.
+ * With `inline` set, local stylesheets and scripts are inlined instead, and the
+ * `url()` and `@import` references inside the stylesheets are resolved against the
+ * stylesheet's own location. The document is parsed, but only the affected ranges
+ * of the source are replaced, so everything else stays byte for byte the same.
+ * With `embed` set as well, the result does not reference any local file at all.
+ */
+export class ResourceRewriter {
+    constructor(
+        private readonly _webview: vscode.Webview | undefined,
+        private readonly _options: RewriteOptions = { inline: false }
+    ) { }
+
+    public async rewriteHtml(html: string, documentUri: vscode.Uri): Promise<RewriteResult> {
+        const result: RewriteResult = { html: html, stylesheets: [], stylesheetImports: [], scripts: [], resources: [], missing: [] };
+        const edits: Edit[] = [];
+        const document = parse(html, { sourceCodeLocationInfo: true });
+        const elements = collectElements(document);
+
+        // A <base href> changes what relative references resolve against
+        let baseDir = getBaseDirectory(documentUri);
+        const base = this._options.embed ? undefined : this._findBase(elements, documentUri);
+        if (base) {
+            baseDir = base.directory;
+            this._replaceAttribute(base.element, 'href', this._toUrl(baseDir) + '/', edits);
+        }
+
+        const modules = this._options.modules && !this._options.embed
+            ? new ModuleGraph(this._options.modules, uri => this._toUrl(uri))
+            : undefined;
+        const importMaps: Element[] = [];
+        let firstModule: Element | undefined;
+
+        let styleIndex = 0;
+        for (const element of elements) {
+            const location = element.sourceCodeLocation;
+            if (!location?.startTag) {
+                continue;
+            }
+            const line = location.startTag.startLine - 1;
+
+            if (this._options.embed && element.tagName === 'script') {
+                await this._embedModuleScript(element, baseDir, documentUri, line, edits, result);
+            }
+
+            if (modules && element.tagName === 'script') {
+                const type = (this._getAttribute(element, 'type') || '').trim().toLowerCase();
+                if (type === 'importmap') {
+                    importMaps.push(element);
+                } else if (type === 'module') {
+                    firstModule = firstModule ?? element;
+                    await this._addModuleScript(element, modules, baseDir, documentUri, line, edits, result);
+                }
+            }
+
+            // Local stylesheets and scripts are replaced as a whole when inlining
+            if (this._options.inline && await this._inlineElement(element, location, baseDir, documentUri, line, edits, result)) {
+                continue;
+            }
+
+            if (element.tagName === 'script' && this._options.scriptNonce) {
+                edits.push({
+                    start: location.startTag.startOffset + '<script'.length,
+                    end: location.startTag.startOffset + '<script'.length,
+                    text: ` nonce="${escapeAttribute(this._options.scriptNonce)}"`
+                });
+            }
+
+            const attributes = [...(URL_ATTRIBUTES['*']), ...(URL_ATTRIBUTES[element.tagName] || [])];
+            for (const name of attributes) {
+                const value = this._getAttribute(element, name);
+                if (value === undefined || (element.tagName === 'base' && name === 'href')) {
+                    continue;
+                }
+                const rewritten = await this._rewriteUrl(value, baseDir, documentUri, line, result);
+                if (rewritten !== value) {
+                    this._replaceAttribute(element, name, rewritten, edits);
+                }
+            }
+
+            const srcset = this._getAttribute(element, 'srcset');
+            if (srcset !== undefined) {
+                const rewritten = await this._rewriteSrcset(srcset, baseDir, documentUri, line, result);
+                if (rewritten !== srcset) {
+                    this._replaceAttribute(element, 'srcset', rewritten, edits);
+                }
+            }
+
+            const style = this._getAttribute(element, 'style');
+            if (style !== undefined) {
+                const rewritten = await this._rewriteCssValue(style, baseDir, documentUri, line, result);
+                if (rewritten !== style) {
+                    this._replaceAttribute(element, 'style', rewritten, edits);
+                }
+            }
+
+            if (element.tagName === 'style') {
+                // Tag style blocks so they can be found again (e.g. to hot-swap them)
+                if (!this._options.embed) {
+                    edits.push({
+                        start: location.startTag.startOffset + '<style'.length,
+                        end: location.startTag.startOffset + '<style'.length,
+                        text: ` data-ag-style="inline-${styleIndex++}"`
+                    });
+                }
+                const text = element.childNodes.find((node): node is TextNode => node.nodeName === '#text');
+                if (text?.sourceCodeLocation) {
+                    const rewritten = await this._rewriteCss(text.value, baseDir, documentUri, line, result);
+                    if (rewritten !== text.value) {
+                        edits.push({
+                            start: text.sourceCodeLocation.startOffset,
+                            end: text.sourceCodeLocation.endOffset,
+                            text: rewritten
+                        });
+                    }
+                }
+            }
+        }
+
+        if (modules && (firstModule || importMaps.length > 0)) {
+            await this._addImportMap(modules, importMaps, firstModule, baseDir, documentUri, edits, result);
+        }
+
+        result.html = this._applyEdits(html, edits);
+        return result;
+    }
+
+    /**
+     * Points the relative imports of an inline module at their files (the page itself has
+     * no URL they could resolve against) and adds the module's imports to the graph.
+     */
+    private async _addModuleScript(element: Element, modules: ModuleGraph, baseDir: vscode.Uri, documentUri: vscode.Uri,
+        line: number, edits: Edit[], result: RewriteResult) {
+        const src = this._getAttribute(element, 'src');
+        if (src !== undefined) {
+            const resolved = this._resolve(src, baseDir, documentUri);
+            if (resolved) {
+                modules.addModule(resolved.uri);
+            }
+            return;
+        }
+
+        const text = element.childNodes.find((node): node is TextNode => node.nodeName === '#text');
+        const imports = text && findModuleImports(text.value);
+        if (!text?.sourceCodeLocation || !imports) {
+            return;
+        }
+        const importEdits: Edit[] = [];
+        for (const { specifier, start, end } of imports) {
+            const kind = getSpecifierKind(specifier);
+            if (kind === 'bare') {
+                modules.addBareImport(specifier, baseDir);
+            } else if (kind === 'relative' || kind === 'root') {
+                const resolved = this._resolve(specifier, baseDir, documentUri);
+                const url = await this._rewriteUrl(specifier, baseDir, documentUri, line, result);
+                if (resolved && url !== specifier) {
+                    modules.addModule(resolved.uri);
+                    const quote = text.value[start];
+                    importEdits.push({ start: start, end: end, text: quote + url.split(quote).join('\\' + quote) + quote });
+                }
+            }
+        }
+        if (importEdits.length > 0) {
+            edits.push({
+                start: text.sourceCodeLocation.startOffset,
+                end: text.sourceCodeLocation.endOffset,
+                text: this._applyEdits(text.value, importEdits)
+            });
+        }
+    }
+
+    /**
+     * Embeds the local modules an inline module imports. Modules from files are embedded
+     * along with their imports when their `src` is (see _embed).
+     */
+    private async _embedModuleScript(element: Element, baseDir: vscode.Uri, documentUri: vscode.Uri,
+        line: number, edits: Edit[], result: RewriteResult) {
+        const text = element.childNodes.find((node): node is TextNode => node.nodeName === '#text');
+        if ((this._getAttribute(element, 'type') || '').trim().toLowerCase() !== 'module' || !text?.sourceCodeLocation) {
+            return;
+        }
+        const source = await this._embedModuleImports(text.value, baseDir, documentUri, line, result);
+        if (source !== text.value) {
+            edits.push({
+                start: text.sourceCodeLocation.startOffset,
+                end: text.sourceCodeLocation.endOffset,
+                text: source
+            });
+        }
+    }
+
+    /**
+     * Replaces the relative and root-relative imports of a module with data: URIs of the
+     * modules they point at, which have no location their own imports could resolve
+     * against. Circular imports cannot be embedded and are reported as missing.
+     */
+    private async _embedModuleImports(source: string, baseDir: vscode.Uri, sourceUri: vscode.Uri, line: number, result: RewriteResult | undefined,
+        ancestors: ReadonlySet<string> = new Set()): Promise<string> {
+        const edits: Edit[] = [];
+        for (const { specifier, start, end } of findModuleImports(source) ?? []) {
+            const kind = getSpecifierKind(specifier);
+            if (kind !== 'relative' && kind !== 'root') {
+                continue;
+            }
+            const url = await this._rewriteUrl(specifier, baseDir, sourceUri, line, result, ancestors);
+            if (url !== specifier) {
+                const quote = source[start];
+                edits.push({ start: start, end: end, text: quote + url.split(quote).join('\\' + quote) + quote });
+            }
+        }
+        return this._applyEdits(source, edits);
+    }
+
+    /**
+     * Gives the page the import map its modules need, merged into the page's own import
+     * map if it has one (whose relative addresses are resolved like any other reference),
+     * otherwise added in front of the first module script.
+     */
+    private async _addImportMap(modules: ModuleGraph, importMaps: Element[], firstModule: Element | undefined,
+        baseDir: vscode.Uri, documentUri: vscode.Uri, edits: Edit[], result: RewriteResult) {
+        const pageMaps: { element: Element; text: TextNode; map: Partial<ImportMap> }[] = [];
+        for (const element of importMaps) {
+            const text = element.childNodes.find((node): node is TextNode => node.nodeName === '#text');
+            try {
+                const map = text?.sourceCodeLocation && JSON.parse(text.value);
+                if (map && typeof map === 'object') {
+                    pageMaps.push({ element: element, text: text!, map: map });
+                }
+            } catch {
+                // Browsers ignore an import map that is not valid JSON, so does the preview
+            }
+        }
+
+        const rewriteAddresses = async (addresses: unknown, line: number) => {
+            const rewritten: { [specifier: string]: string } = {};
+            for (const [specifier, address] of Object.entries(addresses && typeof addresses === 'object' ? addresses : {})) {
+                rewritten[await this._rewriteImportMapUrl(specifier, baseDir, documentUri, line, undefined)]
+                    = typeof address === 'string' ? await this._rewriteImportMapUrl(address, baseDir, documentUri, line, result) : address;
+                // Modules the page maps to its own files may import packages too
+                const resolved = typeof address === 'string' && !address.endsWith('/') && getSpecifierKind(address) !== 'bare'
+                    ? this._resolve(address, baseDir, documentUri) : undefined;
+                if (resolved) {
+                    modules.addModule(resolved.uri);
+                }
+            }
+            return rewritten;
+        };
+        for (const pageMap of pageMaps) {
+            const line = pageMap.element.sourceCodeLocation!.startTag!.startLine - 1;
+            pageMap.map.imports = await rewriteAddresses(pageMap.map.imports, line);
+            const scopes: ImportMap['scopes'] = {};
+            for (const [scope, addresses] of Object.entries(pageMap.map.scopes && typeof pageMap.map.scopes === 'object' ? pageMap.map.scopes : {})) {
+                scopes[await this._rewriteImportMapUrl(scope, baseDir, documentUri, line, undefined)] = await rewriteAddresses(addresses, line);
+            }
+            pageMap.map.scopes = scopes;
+        }
+
+        const mapped = Object.keys(pageMaps[0]?.map.imports ?? {});
+        const generated = await modules.build(specifier => mapped.some(key => key === specifier || (key.endsWith('/') && specifier.startsWith(key))));
+        const line = (firstModule ?? importMaps[0]).sourceCodeLocation!.startTag!.startLine - 1;
+        result.scripts.push(...modules.files);
+        modules.missing.forEach(missing => result.missing.push({ reference: missing.specifier, uri: missing.uri, line: line }));
+
+        // Never close the <script> early
+        const serialize = (map: Partial<ImportMap>) => JSON.stringify(map, undefined, 2).replace(/<\//g, '<\\/');
+        if (pageMaps.length > 0) {
+            const first = pageMaps[0].map;
+            first.imports = { ...generated.imports, ...first.imports };
+            const scopes: ImportMap['scopes'] = { ...generated.scopes };
+            Object.entries(first.scopes ?? {}).forEach(([scope, addresses]) => scopes[scope] = { ...scopes[scope], ...addresses });
+            first.scopes = scopes;
+            pageMaps.forEach(pageMap => edits.push({
+                start: pageMap.text.sourceCodeLocation!.startOffset,
+                end: pageMap.text.sourceCodeLocation!.endOffset,
+                text: serialize(pageMap.map)
+            }));
+        } else if (firstModule && (Object.keys(generated.imports).length > 0 || Object.keys(generated.scopes).length > 0)) {
+            const nonce = this._options.scriptNonce;
+            edits.push({
+                start: firstModule.sourceCodeLocation!.startTag!.startOffset,
+                end: firstModule.sourceCodeLocation!.startTag!.startOffset,
+                text: `<script type="importmap"${nonce ? ` nonce="${escapeAttribute(nonce)}"` : ''}>${serialize(generated)}</script>`
+            });
+        }
+    }
+
+    /**
+     * Import map keys and addresses that look like URLs (`./`, `../`, `/`) resolve
+     * against the page; they keep a trailing slash, which makes them prefixes.
+     */
+    private async _rewriteImportMapUrl(reference: string, baseDir: vscode.Uri, documentUri: vscode.Uri, line: number, result: RewriteResult | undefined): Promise<string> {
+        const kind = getSpecifierKind(reference);
+        if (kind !== 'relative' && kind !== 'root') {
+            return reference;
+        }
+        const url = await this._rewriteUrl(reference, baseDir, documentUri, line, result);
+        return reference.endsWith('/') && !url.endsWith('/') ? url + '/' : url;
+    }
+
+    /**
+     * Rewrites the `url()` and `@import` references of a stylesheet located at `cssUri`.
+     */
+    public rewriteCss(css: string, cssUri: vscode.Uri): Promise<string> {
+        return this._rewriteStylesheet(css, cssUri, 0, undefined);
+    }
+
+    /**
+     * Rewrites the CSS of a `<style>` block of a document, whose references resolve
+     * against the document's `<base href>` if it has one.
+     */
+    public rewriteStyleBlock(css: string, html: string, documentUri: vscode.Uri): Promise<string> {
+        const base = this._findBase(collectElements(parse(html)), documentUri);
+        return this._rewriteCss(css, base?.directory ?? getBaseDirectory(documentUri), documentUri, 0, undefined);
+    }
+
+    /**
+     * What the relative links of a document resolve against: the local directory or the
+     * web address its `<base href>` points to, otherwise the document's directory.
+     */
+    public resolveBase(html: string, documentUri: vscode.Uri): vscode.Uri {
+        const elements = collectElements(parse(html));
+        const local = this._findBase(elements, documentUri);
+        if (local) {
+            return local.directory;
+        }
+        const element = elements.find(e => e.tagName === 'base' && this._getAttribute(e, 'href') !== undefined);
+        const href = element && this._getAttribute(element, 'href')!.trim();
+        return href && /^https?:\/\//i.test(href) ? vscode.Uri.parse(href) : getBaseDirectory(documentUri);
+    }
+
+    /**
+     * The `<base>` element of a document and the local directory its `href` points to.
+     */
+    private _findBase(elements: Element[], documentUri: vscode.Uri): { element: Element; directory: vscode.Uri } | undefined {
+        const element = elements.find(e => e.tagName === 'base' && this._getAttribute(e, 'href') !== undefined);
+        const href = element && this._getAttribute(element, 'href')!;
+        const resolved = href !== undefined ? this._resolve(href, getBaseDirectory(documentUri), documentUri) : undefined;
+        if (!element || !href || !resolved) {
+            return undefined;
+        }
+        return { element: element, directory: href.split(/[?#]/)[0].endsWith('/') ? resolved.uri : this._dirname(resolved.uri) };
+    }
+
+    private async _inlineElement(element: Element, location: Location, baseDir: vscode.Uri, documentUri: vscode.Uri,
+        line: number, edits: Edit[], result: RewriteResult): Promise<boolean> {
+        const isStylesheet = element.tagName === 'link'
+            && (this._getAttribute(element, 'rel') || '').toLowerCase().split(/\s+/).includes('stylesheet');
+        const type = (this._getAttribute(element, 'type') || '').toLowerCase();
+        const isClassicScript = element.tagName === 'script' && (!type || type.includes('javascript') || type.includes('ecmascript'));
+        const reference = this._getAttribute(element, isStylesheet ? 'href' : 'src');
+        if ((!isStylesheet && !isClassicScript) || reference === undefined) {
+            return false;
+        }
+
+        const resolved = this._resolve(reference, baseDir, documentUri);
+        if (!resolved) {
+            return false;
+        }
+        const content = await readLocalResource(resolved.uri);
+        if (content === undefined) {
+            // Keep the original element if the file is not found
+            result.missing.push({ reference: reference, uri: resolved.uri, line: line });
+            return true;
+        }
+
+        const end = location.endTag ? location.endTag.endOffset : location.startTag!.endOffset;
+        if (isStylesheet) {
+            result.stylesheets.push(resolved.uri);
+            const media = this._getAttribute(element, 'media');
+            const css = await this._rewriteStylesheet(content, resolved.uri, line, result);
+            edits.push({
+                start: location.startTag!.startOffset,
+                end: end,
+                // Exported pages must not give away local paths
+                text: (this._options.embed ? '<style' : `<style data-ag-style="${escapeAttribute(resolved.uri.toString())}"`)
+                    + (media ? ` media="${escapeAttribute(media)}"` : '')
+                    + `>${css}</style>`
+            });
+        } else {
+            result.scripts.push(resolved.uri);
+            const nonce = this._options.scriptNonce;
+            const attributes = element.attrs
+                .filter(a => a.name !== 'src' && !(nonce && a.name === 'nonce'))
+                .map(a => ` ${a.prefix ? `${a.prefix}:` : ''}${a.name}="${escapeAttribute(a.value)}"`)
+                .join('');
+            const sourceName = this._options.nameScript?.(resolved.uri);
+            edits.push({
+                start: location.startTag!.startOffset,
+                end: end,
+                text: `<script${nonce ? ` nonce="${escapeAttribute(nonce)}"` : ''}${attributes}>${content.replace(/<\/script/gi, '<\\/script')}`
+                    + (sourceName ? `\n//# sourceURL=${sourceName}\n` : '')
+                    + '</script>'
+            });
+        }
+        return true;
+    }
+
+    /**
+     * Rewrites a stylesheet file; an @import of it inside is not followed. `ancestors` are
+     * the stylesheets and modules being inlined or embedded around it, passed down rather
+     * than kept on the rewriter so that rewrites running at the same time do not see
+     * each other's.
+     */
+    private _rewriteStylesheet(css: string, uri: vscode.Uri, line: number, result: RewriteResult | undefined,
+        ancestors: ReadonlySet<string> = new Set()): Promise<string> {
+        return this._rewriteCss(css, this._dirname(uri), uri, line, result, new Set([...ancestors, uri.toString()]));
+    }
+
+    private async _rewriteCss(css: string, baseDir: vscode.Uri, sourceUri: vscode.Uri, line: number, result: RewriteResult | undefined,
+        ancestors: ReadonlySet<string> = new Set()): Promise<string> {
+        let root: postcss.Root;
+        try {
+            root = postcss.parse(css);
+        } catch {
+            // Leave stylesheets the parser cannot read as they are
+            return css;
+        }
+
+        // Collected first, as the walks cannot wait for files to be looked up
+        const declarations: postcss.Declaration[] = [];
+        const imports: postcss.AtRule[] = [];
+        root.walkDecls(declaration => {
+            if (/url\(/i.test(declaration.value)) {
+                declarations.push(declaration);
+            }
+        });
+        root.walkAtRules(/^import$/i, rule => {
+            imports.push(rule);
+        });
+
+        let changed = false;
+        for (const declaration of declarations) {
+            const value = await this._rewriteCssValue(declaration.value, baseDir, sourceUri, line, result, ancestors);
+            if (value !== declaration.value) {
+                declaration.value = value;
+                changed = true;
+            }
+        }
+        for (const rule of imports) {
+            const parsed = valueParser(rule.params);
+            const first = parsed.nodes.find(node => node.type !== 'space');
+            const argument = first?.type === 'function' && first.value.toLowerCase() === 'url' ? first.nodes[0] : first;
+            if (!first || !argument || (argument === first ? argument.type !== 'string' : argument.type !== 'string' && argument.type !== 'word')) {
+                continue;
+            }
+            const url = await this._rewriteImport(argument.value, baseDir, sourceUri, line, result, ancestors);
+            if (url !== argument.value) {
+                if (first.type === 'function') {
+                    first.nodes = [{ type: 'string', quote: '"', value: url, sourceIndex: argument.sourceIndex, sourceEndIndex: argument.sourceEndIndex }];
+                } else {
+                    first.value = url;
+                }
+                rule.params = parsed.toString();
+                changed = true;
+            }
+        }
+
+        // Only re-serialize when needed, postcss keeps formatting but not always byte for byte
+        return changed ? root.toString() : css;
+    }
+
+    /**
+     * When inlining, a local stylesheet pulled in with @import is inlined as a data: URI
+     * too, so that swapping the CSS of the importing stylesheet picks up changes to it.
+     * Otherwise (and for circular imports) it is pointed at like any other file.
+     */
+    private async _rewriteImport(reference: string, baseDir: vscode.Uri, sourceUri: vscode.Uri, line: number, result: RewriteResult | undefined,
+        ancestors: ReadonlySet<string>): Promise<string> {
+        const resolved = this._resolve(reference, baseDir, sourceUri);
+        const key = resolved?.uri.toString();
+        if (!resolved || !key || !this._options.inline || this._options.embed || ancestors.has(key)) {
+            return this._rewriteUrl(reference, baseDir, sourceUri, line, result, ancestors);
+        }
+        const css = await readLocalResource(resolved.uri);
+        if (css === undefined) {
+            return this._rewriteUrl(reference, baseDir, sourceUri, line, result, ancestors);
+        }
+        result?.stylesheetImports.push(resolved.uri);
+        const rewritten = await this._rewriteStylesheet(css, resolved.uri, line, result, ancestors);
+        return `data:text/css;base64,${Buffer.from(rewritten, 'utf-8').toString('base64')}`;
+    }
+
+    private async _rewriteCssValue(value: string, baseDir: vscode.Uri, sourceUri: vscode.Uri, line: number, result: RewriteResult | undefined,
+        ancestors: ReadonlySet<string> = new Set()): Promise<string> {
+        const parsed = valueParser(value);
+        const functions: valueParser.FunctionNode[] = [];
+        parsed.walk(node => {
+            if (node.type === 'function' && node.value.toLowerCase() === 'url' && node.nodes.length > 0) {
+                functions.push(node);
+            }
+        });
+
+        let changed = false;
+        for (const node of functions) {
+            const argument = node.nodes[0];
+            if (argument.type !== 'word' && argument.type !== 'string') {
+                continue;
+            }
+            const url = await this._rewriteUrl(argument.value, baseDir, sourceUri, line, result, ancestors);
+            if (url !== argument.value) {
+                node.nodes = [{ type: 'string', quote: '"', value: url, sourceIndex: argument.sourceIndex, sourceEndIndex: argument.sourceEndIndex }];
+                changed = true;
+            }
+        }
+        return changed ? parsed.toString() : value;
+    }
+
+    private async _rewriteSrcset(srcset: string, baseDir: vscode.Uri, documentUri: vscode.Uri, line: number, result: RewriteResult): Promise<string> {
+        // Candidate parsing as in the HTML spec: a URL runs up to whitespace (so data: URLs
+        // may contain commas), trailing commas end the candidate, otherwise descriptors follow
+        const edits: Edit[] = [];
+        let index = 0;
+        while (index < srcset.length) {
+            while (index < srcset.length && /[\s,]/.test(srcset[index])) {
+                index++;
+            }
+            const start = index;
+            while (index < srcset.length && !/\s/.test(srcset[index])) {
+                index++;
+            }
+            let end = index;
+            while (end > start && srcset[end - 1] === ',') {
+                end--;
+            }
+            if (end > start) {
+                const url = srcset.slice(start, end);
+                const rewritten = await this._rewriteUrl(url, baseDir, documentUri, line, result);
+                if (rewritten !== url) {
+                    edits.push({ start: start, end: end, text: rewritten });
+                }
+            }
+            if (end < index) {
+                continue;
+            }
+
+            // Skip the descriptors up to the next comma outside of parentheses
+            let depth = 0;
+            while (index < srcset.length && !(srcset[index] === ',' && depth === 0)) {
+                depth += srcset[index] === '(' ? 1 : srcset[index] === ')' ? -1 : 0;
+                index++;
+            }
+        }
+        return this._applyEdits(srcset, edits);
+    }
+
+    /**
+     * Returns the webview URL (or data: URI when embedding) for a local reference, or
+     * the reference itself when it is not local.
+     */
+    private async _rewriteUrl(reference: string, baseDir: vscode.Uri, sourceUri: vscode.Uri, line: number, result: RewriteResult | undefined,
+        ancestors: ReadonlySet<string> = new Set()): Promise<string> {
+        const resolved = this._resolve(reference, baseDir, sourceUri);
+        if (!resolved) {
+            return reference;
+        }
+
+        if (this._options.embed) {
+            result?.resources.push(resolved.uri);
+            const dataUri = await this._embed(resolved.uri, line, result, ancestors);
+            if (dataUri === undefined) {
+                result?.missing.push({ reference: reference, uri: resolved.uri, line: line });
+                return reference;
+            }
+            // A fragment still means something for data: URIs (e.g. SVG sprites), a query does not
+            const fragmentIndex = resolved.suffix.indexOf('#');
+            return dataUri + (fragmentIndex === -1 ? '' : resolved.suffix.slice(fragmentIndex));
+        }
+
+        if (result) {
+            result.resources.push(resolved.uri);
+            if (!await resourceExists(resolved.uri)) {
+                result.missing.push({ reference: reference, uri: resolved.uri, line: line });
+            }
+        }
+        return this._toUrl(resolved.uri) + resolved.suffix;
+    }
+
+    private _toUrl(uri: vscode.Uri): string {
+        return this._webview ? this._webview.asWebviewUri(uri).toString() : uri.toString();
+    }
+
+    /**
+     * Returns a local file as a data: URI, or undefined if it cannot be read. Stylesheets
+     * and modules are embedded with their own references embedded too.
+     */
+    private async _embed(uri: vscode.Uri, line: number, result: RewriteResult | undefined, ancestors: ReadonlySet<string>): Promise<string | undefined> {
+        const extension = path.posix.extname(uri.path).toLowerCase();
+        const mimeType = (MIME_TYPES[extension] || 'application/octet-stream').split(';')[0];
+
+        let data: Buffer | undefined;
+        if (extension === '.css' || extension === '.js' || extension === '.mjs') {
+            const key = uri.toString();
+            if (ancestors.has(key)) {
+                return undefined;
+            }
+            const nested = new Set([...ancestors, key]);
+            const text = await readLocalResource(uri);
+            const embedded = text === undefined ? undefined
+                : extension === '.css' ? await this._rewriteCss(text, this._dirname(uri), uri, line, result, nested)
+                    : await this._embedModuleImports(text, this._dirname(uri), uri, line, result, nested);
+            data = embedded === undefined ? undefined : Buffer.from(embedded, 'utf-8');
+        } else {
+            const openDocument = findOpenDocument(uri);
+            if (openDocument) {
+                data = Buffer.from(openDocument.getText(), 'utf-8');
+            } else {
+                const content = await readFile(uri);
+                data = content && Buffer.from(content);
+            }
+        }
+        return data && `data:${mimeType};base64,${data.toString('base64')}`;
+    }
+
+    /**
+     * Resolves a relative or root-relative reference to a local file. References with a
+     * scheme (`https:`, `data:`, `mailto:`...), protocol-relative ones and pure fragments
+     * are not local. Query string and fragment are kept apart in `suffix`.
+     */
+    private _resolve(reference: string, baseDir: vscode.Uri, sourceUri: vscode.Uri): { uri: vscode.Uri; suffix: string } | undefined {
+        const trimmed = reference.trim();
+        if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('//') || /^[a-z][a-z\d+.-]*:/i.test(trimmed)) {
+            return undefined;
+        }
+
+        const suffixIndex = trimmed.search(/[?#]/);
+        const pathPart = suffixIndex === -1 ? trimmed : trimmed.slice(0, suffixIndex);
+        const suffix = suffixIndex === -1 ? '' : trimmed.slice(suffixIndex);
+        if (!pathPart) {
+            return undefined;
+        }
+
+        let decoded = pathPart;
+        try {
+            decoded = decodeURIComponent(pathPart);
+        } catch {
+            // Keep malformed escapes as written
+        }
+
+        // Root-relative paths start at the workspace folder
+        const root = pathPart.startsWith('/')
+            ? (vscode.workspace.getWorkspaceFolder(sourceUri)?.uri ?? baseDir)
+            : baseDir;
+        return { uri: vscode.Uri.joinPath(root, decoded), suffix: suffix };
+    }
+
+    private _getAttribute(element: Element, name: string): string | undefined {
+        return element.attrs.find(a => (a.prefix ? `${a.prefix}:${a.name}` : a.name) === name)?.value;
+    }
+
+    private _replaceAttribute(element: Element, name: string, value: string, edits: Edit[]) {
+        const location = element.sourceCodeLocation?.attrs?.[name];
+        if (location) {
+            edits.push({ start: location.startOffset, end: location.endOffset, text: `${name}="${escapeAttribute(value)}"` });
+        }
+    }
+
+    private _applyEdits(html: string, edits: Edit[]): string {
+        edits.sort((a, b) => b.start - a.start);
+        for (const edit of edits) {
+            html = html.slice(0, edit.start) + edit.text + html.slice(edit.end);
+        }
+        return html;
+    }
+
+    private _dirname(uri: vscode.Uri): vscode.Uri {
+        return vscode.Uri.joinPath(uri, '..');
+    }
+}
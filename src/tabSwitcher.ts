@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { PreviewLocation, PreviewTab, PreviewTabManager } from './previewTabManager';
+
+export const LOCATION_LABELS: { [location in PreviewLocation]: string } = {
+    panel: 'Editor Panel',
+    view: 'Preview View'
+};
+
+interface TabItem extends vscode.QuickPickItem {
+    tab?: PreviewTab;
+}
+
+export function getTabIcon(tab: PreviewTab): string {
+    if (tab.snapshot !== undefined) {
+        return '$(device-camera)';
+    }
+    if (tab.pinned) {
+        return '$(pinned)';
+    }
+    return tab.mode === 'locked' ? '$(lock)' : '$(eye)';
+}
+
+/**
+ * The state of a tab in a few words, e.g. "locked to its file · 2 markup problems".
+ */
+export function describeTab(tab: PreviewTab): string {
+    const parts = [tab.snapshot !== undefined ? 'snapshot' : tab.mode === 'locked' ? 'locked to its file' : 'follows the editor'];
+    if (tab.pinned) {
+        parts.push('pinned');
+    }
+    if (tab.sandbox === 'untrusted') {
+        parts.push('page scripts disabled');
+    }
+    if (tab.problems > 0) {
+        parts.push(`${tab.problems} markup problem${tab.problems === 1 ? '' : 's'}`);
+    }
+    return parts.join(' · ');
+}
+
+/**
+ * Lets the user pick one of the tabs of the editor panel and the preview view, by
+ * title or file. Starts on the active tab of the preview used last.
+ */
+export function pickPreviewTab(manager: PreviewTabManager): Promise<PreviewTab | undefined> {
+    const items: TabItem[] = [];
+    const locations: PreviewLocation[] = ['panel', 'view'];
+    for (const location of locations) {
+        const tabs = manager.tabsIn(location);
+        if (tabs.length === 0) {
+            continue;
+        }
+        items.push({ label: LOCATION_LABELS[location], kind: vscode.QuickPickItemKind.Separator });
+        const activeTabId = manager.getActiveTabId(location);
+        for (const tab of tabs) {
+            items.push({
+                label: `${getTabIcon(tab)} ${tab.title || 'Untitled'}`,
+                description: tab.uri ? vscode.workspace.asRelativePath(tab.uri) : undefined,
+                detail: describeTab(tab) + (tab.id === activeTabId ? ' · active' : ''),
+                tab: tab
+            });
+        }
+    }
+
+    const quickPick = vscode.window.createQuickPick<TabItem>();
+    quickPick.title = 'Preview Tabs';
+    quickPick.placeholder = 'Select a preview tab by title or file';
+    quickPick.matchOnDescription = true;
+    quickPick.items = items;
+    const location = manager.activeLocation;
+    const active = location && items.find(item => item.tab?.id === manager.getActiveTabId(location));
+    if (active) {
+        quickPick.activeItems = [active];
+    }
+
+    return new Promise(resolve => {
+        quickPick.onDidAccept(() => {
+            resolve(quickPick.selectedItems[0]?.tab);
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            resolve(undefined);
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+}
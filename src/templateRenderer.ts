@@ -0,0 +1,265 @@
+import * as vscode from 'vscode';
+import { getBaseDirectory, readLocalResource } from './resourceRewriter';
+import { escapeHtml } from './htmlUtils';
+
+/**
+ * What a template syntax gets to expand a file: the variables of the data file, the
+ * (expanded) content of the files it includes, and a way to report problems.
+ */
+export interface TemplateContext {
+    data: { [name: string]: unknown };
+    /**
+     * The expanded content of a file included from `uri`, or undefined when it cannot be
+     * included; that is reported at `offset` of `source` already. References starting
+     * with '/' are relative to the workspace folder, others to the including file.
+     */
+    include(reference: string, uri: vscode.Uri, source: string, offset: number): Promise<string | undefined>;
+    report(uri: vscode.Uri, source: string, offset: number, message: string): void;
+}
+
+export interface TemplateSyntax {
+    // Quick test whether a file uses the syntax at all
+    matches(source: string): boolean;
+    expand(source: string, uri: vscode.Uri, context: TemplateContext): Promise<string>;
+}
+
+export interface TemplateResult {
+    html: string;
+    // Included files and the data file, whose changes should refresh the page
+    partials: vscode.Uri[];
+    // The (zero-based) line of the document each line of `html` comes from; lines of
+    // partials come from the line of their include. Undefined when nothing was expanded.
+    lines?: number[];
+}
+
+// Includes nested deeper than this are taken for a loop
+const MAX_INCLUDE_DEPTH = 20;
+
+// Marks the end of each line of the document while it is expanded, with the line number
+// in binary. Made of characters `\s` matches, so tags spanning lines still match.
+const LINE_MARK = /\u205f([\u2000\u2001]*)\u205f/;
+const LINE_MARKS = new RegExp(LINE_MARK.source, 'g');
+
+function markLines(source: string): string {
+    return source.split('\n').map((line, index) =>
+        line + '\u205f' + index.toString(2).replace(/0/g, '\u2000').replace(/1/g, '\u2001') + '\u205f').join('\n');
+}
+
+function readLineMark(mark: string): number {
+    return parseInt(mark.replace(/\u2000/g, '0').replace(/\u2001/g, '1'), 2);
+}
+
+/**
+ * Removes the line marks from an expanded document and maps its lines to the document's.
+ * Lines without a mark were included, the mark that follows them is their include's line.
+ */
+function unmarkLines(expanded: string): { html: string; lines: number[] } {
+    const marked = expanded.split('\n').map(line => {
+        const mark = LINE_MARK.exec(line);
+        return { text: line.replace(LINE_MARKS, ''), line: mark ? readLineMark(mark[1]) : undefined };
+    });
+    const lines: number[] = [];
+    let next = marked.length > 0 ? marked[marked.length - 1].line ?? 0 : 0;
+    for (let index = marked.length - 1; index >= 0; index--) {
+        next = marked[index].line ?? next;
+        lines[index] = next;
+    }
+    return { html: marked.map(line => line.text).join('\n'), lines: lines };
+}
+
+/**
+ * `<!--#include file="header.html" -->` and `<!--#include virtual="/partials/nav.html" -->`
+ * as in Apache and nginx; `file` is relative to the including file, `virtual` to the
+ * workspace folder when it starts with '/'.
+ */
+export const SERVER_SIDE_INCLUDES: TemplateSyntax = {
+    matches: source => source.includes('<!--#include'),
+    expand: (source, uri, context) => replaceAsync(source, /<!--#include\s+(file|virtual)\s*=\s*(["'])(.*?)\2\s*-->/g,
+        async (match, offset) => await context.include(match[1] === 'file' ? match[3].replace(/^\/+/, '') : match[3], uri, source, offset) ?? '')
+};
+
+/**
+ * Nunjucks/Handlebars-style `{% include "header.html" %}` and `{{ site.title }}`.
+ * Variables are HTML-escaped unless followed by `| safe`. Variables the data file does
+ * not have are left as they are, they may be meant for a client-side framework.
+ */
+export const TEMPLATE_TAGS: TemplateSyntax = {
+    matches: source => source.includes('{%') || source.includes('{{'),
+    expand: async (source, uri, context) => {
+        const included = await replaceAsync(source, /\{%-?\s*include\s+(["'])(.*?)\1\s*-?%\}/g,
+            async (match, offset) => await context.include(match[2], uri, source, offset) ?? '');
+        return included.replace(/\{\{\s*([\w$]+(?:\.[\w$]+)*)\s*(\|\s*safe\s*)?\}\}/g, (match, name: string, safe: string | undefined) => {
+            let value: unknown = context.data;
+            for (const key of name.split('.')) {
+                value = value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key)
+                    ? (value as { [key: string]: unknown })[key]
+                    : undefined;
+            }
+            if (value === undefined || (value !== null && typeof value === 'object')) {
+                return match;
+            }
+            const text = value === null ? '' : String(value);
+            return safe ? text : escapeHtml(text);
+        });
+    }
+};
+
+async function replaceAsync(source: string, pattern: RegExp, replace: (match: RegExpExecArray, offset: number) => Promise<string>): Promise<string> {
+    let result = '';
+    let lastIndex = 0;
+    for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+        result += source.slice(lastIndex, match.index) + await replace(match, match.index);
+        lastIndex = match.index + match[0].length;
+    }
+    return result + source.slice(lastIndex);
+}
+
+/**
+ * Expands server-side includes and template tags before a document is previewed, so
+ * pages assembled from partials show as the site would serve them. Syntaxes are
+ * pluggable; each file, partials included, goes through all of them in order.
+ * Problems (missing partials, include loops, an invalid data file) are reported on the
+ * file and line they are in.
+ */
+export class TemplateRenderer implements vscode.Disposable {
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection('antigravity-templates');
+    private readonly _syntaxes: TemplateSyntax[] = [SERVER_SIDE_INCLUDES, TEMPLATE_TAGS];
+    // Problems found rendering each document, by the file they are in
+    private readonly _problems = new Map<string, Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>>();
+
+    /**
+     * Adds a syntax, expanded after the ones there are.
+     */
+    public register(syntax: TemplateSyntax): vscode.Disposable {
+        this._syntaxes.push(syntax);
+        return new vscode.Disposable(() => {
+            const index = this._syntaxes.indexOf(syntax);
+            if (index !== -1) {
+                this._syntaxes.splice(index, 1);
+            }
+        });
+    }
+
+    public async render(source: string, documentUri: vscode.Uri): Promise<TemplateResult> {
+        const problems = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+        const partials: vscode.Uri[] = [];
+        const report = (uri: vscode.Uri, text: string, offset: number, message: string) => {
+            // Positions in the document are on the lines their marks name
+            const lines = text.slice(0, offset).split('\n');
+            const mark = LINE_MARK.exec(text.slice(offset));
+            const position = new vscode.Position(mark ? readLineMark(mark[1]) : lines.length - 1,
+                lines[lines.length - 1].replace(LINE_MARKS, '').length);
+            const file = problems.get(uri.toString()) ?? { uri: uri, diagnostics: [] };
+            // A partial included more than once reports its problems once
+            if (!file.diagnostics.some(d => d.range.start.isEqual(position) && d.message === message)) {
+                const diagnostic = new vscode.Diagnostic(new vscode.Range(position, position.translate(0, 1)), message, vscode.DiagnosticSeverity.Error);
+                diagnostic.source = 'Antigravity Templates';
+                file.diagnostics.push(diagnostic);
+            }
+            problems.set(uri.toString(), file);
+        };
+
+        let html = source;
+        let lines: number[] | undefined;
+        if (this._syntaxes.some(syntax => syntax.matches(source))) {
+            const including: string[] = [documentUri.toString()];
+            const context: TemplateContext = {
+                data: await this._loadData(documentUri, partials, report),
+                report: report,
+                include: async (reference, uri, text, offset) => {
+                    const target = this._resolveInclude(reference, uri);
+                    if (including.includes(target.toString()) || including.length > MAX_INCLUDE_DEPTH) {
+                        report(uri, text, offset, `Circular include: ${reference}`);
+                        return undefined;
+                    }
+                    partials.push(target);
+                    const content = await readLocalResource(target);
+                    if (content === undefined) {
+                        report(uri, text, offset, `Included file not found: ${reference}`);
+                        return undefined;
+                    }
+                    including.push(target.toString());
+                    const expanded = await this._expand(content, target, context);
+                    including.pop();
+                    return expanded;
+                }
+            };
+            ({ html, lines } = unmarkLines(await this._expand(markLines(source), documentUri, context)));
+        }
+
+        this._problems.set(documentUri.toString(), problems);
+        this._publish();
+        return { html: html, partials: partials, lines: lines };
+    }
+
+    /**
+     * Drops the problems found rendering documents that are no longer previewed.
+     */
+    public retain(documentUris: vscode.Uri[]) {
+        const keep = new Set(documentUris.map(uri => uri.toString()));
+        [...this._problems.keys()].filter(key => !keep.has(key)).forEach(key => this._problems.delete(key));
+        this._publish();
+    }
+
+    private async _expand(source: string, uri: vscode.Uri, context: TemplateContext): Promise<string> {
+        for (const syntax of [...this._syntaxes]) {
+            if (syntax.matches(source)) {
+                source = await syntax.expand(source, uri, context);
+            }
+        }
+        return source;
+    }
+
+    private _resolveInclude(reference: string, uri: vscode.Uri): vscode.Uri {
+        const directory = getBaseDirectory(uri);
+        if (reference.startsWith('/')) {
+            return vscode.Uri.joinPath(vscode.workspace.getWorkspaceFolder(uri)?.uri ?? directory, reference);
+        }
+        return vscode.Uri.joinPath(directory, reference);
+    }
+
+    /**
+     * The variables of the data file of the document's workspace folder
+     * (`antigravity.templates.dataFile`); none when there is no such file.
+     */
+    private async _loadData(documentUri: vscode.Uri, partials: vscode.Uri[],
+        report: (uri: vscode.Uri, text: string, offset: number, message: string) => void): Promise<{ [name: string]: unknown }> {
+        const folder = vscode.workspace.getWorkspaceFolder(documentUri)?.uri
+            ?? (documentUri.scheme === 'untitled' ? vscode.workspace.workspaceFolders?.[0]?.uri : undefined);
+        if (!folder) {
+            return {};
+        }
+        const uri = vscode.Uri.joinPath(folder, vscode.workspace.getConfiguration('antigravity').get<string>('templates.dataFile') || '.antigravity/data.json');
+        partials.push(uri);
+        const text = await readLocalResource(uri);
+        if (text === undefined) {
+            return {};
+        }
+        try {
+            const data = JSON.parse(text);
+            if (data !== null && typeof data === 'object' && !Array.isArray(data)) {
+                return data;
+            }
+            report(uri, text, 0, 'Expected an object of variables');
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            report(uri, text, Number(/position (\d+)/.exec(message)?.[1] ?? 0), `Invalid JSON: ${message}`);
+        }
+        return {};
+    }
+
+    private _publish() {
+        const files = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+        this._problems.forEach(problems => problems.forEach((file, key) => {
+            const merged = files.get(key) ?? { uri: file.uri, diagnostics: [] };
+            merged.diagnostics.push(...file.diagnostics.filter(d => !merged.diagnostics.some(m => m.range.isEqual(d.range) && m.message === d.message)));
+            files.set(key, merged);
+        }));
+        this._diagnostics.clear();
+        files.forEach(file => this._diagnostics.set(file.uri, file.diagnostics));
+    }
+
+    public dispose() {
+        this._diagnostics.dispose();
+    }
+}
@@ -0,0 +1,30 @@
+import * as path from 'path';
+import * as glob from 'glob';
+import Module = require('module');
+import Mocha = require('mocha');
+
+// Node's module loader, whose file name resolution is not part of its typings
+const loader = Module as typeof Module & { _resolveFilename(request: string, ...rest: unknown[]): string };
+
+/**
+ * Runs the suites in plain Node.js. The units they cover (parsers and resolvers) need
+ * no more of the `vscode` API than vscodeStub has, which `import 'vscode'` gets here.
+ */
+const resolveFilename = loader._resolveFilename;
+loader._resolveFilename = function (request: string, ...rest: unknown[]) {
+    return resolveFilename.call(this, request === 'vscode' ? require.resolve('./vscodeStub') : request, ...rest);
+};
+
+function run(): Promise<number> {
+    const mocha = new Mocha({ ui: 'tdd', color: true });
+    const testsRoot = path.resolve(__dirname, 'suite');
+    glob.sync('**/*.test.js', { cwd: testsRoot }).forEach(file => mocha.addFile(path.resolve(testsRoot, file)));
+    return new Promise(resolve => mocha.run(resolve));
+}
+
+run().then(failures => {
+    process.exitCode = failures > 0 ? 1 : 0;
+}, error => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { MockBackend } from '../../mockBackend';
+import { diagnostics, files } from '../vscodeStub';
+
+suite('MockBackend routes', () => {
+    const documentUri = vscode.Uri.file('/workspace/index.html');
+    const configUri = vscode.Uri.file('/workspace/.antigravity/mocks.json');
+    let mocks: MockBackend;
+
+    const useRoutes = (routes: unknown[]) => files.set(configUri.path, JSON.stringify({ routes: routes }));
+    const answer = async (method: string, url: string) => (await mocks.respond(documentUri, { method: method, url: url }))?.response;
+
+    setup(() => {
+        files.clear();
+        diagnostics.clear();
+        mocks = new MockBackend();
+    });
+
+    teardown(() => mocks.dispose());
+
+    test('compiles URL patterns', async () => {
+        useRoutes([
+            { url: '/api/users/*', method: 'get' },
+            { url: 'https://api.example.com/v1/**?page=*' }
+        ]);
+        assert.deepStrictEqual(await mocks.getRoutes(documentUri), [
+            { pattern: '^/api/users/[^/]*$', method: 'GET', full: false, query: false },
+            { pattern: '^https://api\\.example\\.com/v1/.*\\?page=[^/]*$', method: '', full: true, query: true }
+        ]);
+    });
+
+    test('matches paths on any host, one segment per *', async () => {
+        useRoutes([{ url: '/api/users/*', body: { id: 1 } }]);
+        assert.strictEqual((await answer('GET', 'http://localhost/api/users/1?fields=name'))?.body, '{"id":1}');
+        assert.strictEqual((await answer('GET', 'https://example.com/api/users/2'))?.status, 200);
+        assert.strictEqual(await answer('GET', 'http://localhost/api/users/1/posts'), undefined);
+    });
+
+    test('matches method, host and query when the route has them', async () => {
+        useRoutes([
+            { url: '/api/items', method: 'POST', status: 201 },
+            { url: 'https://api.example.com/**', status: 202 },
+            { url: '/search?q=*', status: 203 }
+        ]);
+        assert.strictEqual((await answer('post', 'http://localhost/api/items'))?.status, 201);
+        assert.strictEqual(await answer('GET', 'http://localhost/api/items'), undefined);
+        assert.strictEqual((await answer('GET', 'https://api.example.com/a/b'))?.status, 202);
+        assert.strictEqual(await answer('GET', 'https://other.example.com/a/b'), undefined);
+        assert.strictEqual((await answer('GET', 'http://localhost/search?q=cats'))?.status, 203);
+        assert.strictEqual(await answer('GET', 'http://localhost/search'), undefined);
+    });
+
+    test('answers with fixtures relative to the config file', async () => {
+        useRoutes([{ url: '/api/users', fixture: 'users.json' }]);
+        files.set('/workspace/.antigravity/users.json', '[]');
+        const response = await answer('GET', 'http://localhost/api/users');
+        assert.strictEqual(response?.body, '[]');
+        assert.match(response?.headers['Content-Type'] ?? '', /^application\/json/);
+    });
+
+    test('drops invalid routes and reports them on the config file', async () => {
+        useRoutes([
+            { url: '/ok' },
+            { url: '/bad-method', method: 5 },
+            { url: '/bad-fixture', fixture: {} },
+            { url: '/bad-headers', headers: { 'X-Count': 1 } },
+            { url: '/bad-status', status: 99 }
+        ]);
+        assert.deepStrictEqual((await mocks.getRoutes(documentUri)).map(route => route.pattern), ['^/ok$']);
+        assert.deepStrictEqual(diagnostics.get(configUri.toString())?.map(d => d.message), [
+            '"method" of /bad-method must be a string such as "GET"',
+            '"fixture" of /bad-fixture must be a path relative to the config file',
+            '"headers" of /bad-headers must map header names to strings',
+            '"status" of /bad-status must be a number from 200 to 599'
+        ]);
+    });
+});
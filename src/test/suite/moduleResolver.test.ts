@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ModuleCache, ModuleGraph } from '../../moduleResolver';
+import { readLocalResource } from '../../resourceRewriter';
+import { files, workspace } from '../vscodeStub';
+
+suite('ModuleGraph import maps', () => {
+    const appUri = vscode.Uri.file('/workspace/src/app.js');
+    const url = (filePath: string) => vscode.Uri.file(filePath).toString();
+    let cache: ModuleCache;
+
+    const buildImportMap = async (source: string) => {
+        files.set(appUri.path, source);
+        const graph = new ModuleGraph(cache, uri => uri.toString());
+        graph.addModule(appUri);
+        return { map: await graph.build(() => false), missing: graph.missing.map(m => m.specifier) };
+    };
+    const addPackage = (directory: string, manifest: object, ...modules: string[]) => {
+        files.set(`${directory}/package.json`, JSON.stringify(manifest));
+        modules.forEach(module => files.set(`${directory}/${module}`, 'export default 1;'));
+    };
+
+    setup(() => {
+        files.clear();
+        cache = new ModuleCache(readLocalResource, workspace.createFileSystemWatcher() as unknown as vscode.FileSystemWatcher);
+    });
+
+    teardown(() => cache.dispose());
+
+    test('follows the browser conditions and subpath patterns of "exports"', async () => {
+        addPackage('/workspace/node_modules/lib', {
+            exports: {
+                '.': { require: './cjs/index.js', import: './esm/index.js' },
+                './utils/*': { node: './node/*.js', default: './esm/utils/*.js' },
+                './internal/*': null
+            }
+        }, 'esm/index.js', 'esm/utils/format.js');
+        const { map, missing } = await buildImportMap("import lib from 'lib';\nimport { format } from 'lib/utils/format';\nimport 'lib/internal/x';");
+        assert.deepStrictEqual(map.imports, {
+            'lib': url('/workspace/node_modules/lib/esm/index.js'),
+            'lib/utils/format': url('/workspace/node_modules/lib/esm/utils/format.js')
+        });
+        assert.deepStrictEqual(missing, ['lib/internal/x']);
+    });
+
+    test('maps packages without "exports" by their entry and as a whole', async () => {
+        addPackage('/workspace/node_modules/@scope/kit', { module: 'dist/kit.mjs', main: 'dist/kit.cjs' }, 'dist/kit.mjs');
+        const { map } = await buildImportMap("export { kit } from '@scope/kit';");
+        assert.deepStrictEqual(map.imports, {
+            '@scope/kit': url('/workspace/node_modules/@scope/kit/dist/kit.mjs'),
+            '@scope/kit/': url('/workspace/node_modules/@scope/kit') + '/'
+        });
+    });
+
+    test('scopes other versions in nested node_modules', async () => {
+        addPackage('/workspace/node_modules/dep', { exports: './index.js' }, 'index.js');
+        addPackage('/workspace/node_modules/tool', { exports: './index.js' });
+        files.set('/workspace/node_modules/tool/index.js', "import dep from 'dep';");
+        addPackage('/workspace/node_modules/tool/node_modules/dep', { exports: './index.js' }, 'index.js');
+        const { map } = await buildImportMap("import dep from 'dep';\nimport tool from 'tool';");
+        assert.strictEqual(map.imports['dep'], url('/workspace/node_modules/dep/index.js'));
+        assert.deepStrictEqual(map.scopes, {
+            [url('/workspace/node_modules/tool') + '/']: { 'dep': url('/workspace/node_modules/tool/node_modules/dep/index.js') }
+        });
+    });
+
+    test('maps root-relative imports to the workspace folder and reports unknown packages', async () => {
+        files.set('/workspace/lib/util.js', 'export const util = 1;');
+        const { map, missing } = await buildImportMap("import { util } from '/lib/util.js';\nimport 'not-installed';");
+        assert.deepStrictEqual(map.imports, { [new URL('/lib/util.js', appUri.toString()).href]: url('/workspace/lib/util.js') });
+        assert.deepStrictEqual(missing, ['not-installed']);
+    });
+});
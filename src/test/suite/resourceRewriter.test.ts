@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ResourceRewriter } from '../../resourceRewriter';
+import { files } from '../vscodeStub';
+
+suite('ResourceRewriter srcset', () => {
+    const documentUri = vscode.Uri.file('/workspace/index.html');
+
+    const rewriteSrcset = async (srcset: string) => {
+        const result = await new ResourceRewriter(undefined).rewriteHtml(`<img srcset="${srcset}">`, documentUri);
+        return { srcset: /srcset="([^"]*)"/.exec(result.html)![1], missing: result.missing.map(m => m.reference) };
+    };
+
+    setup(() => {
+        files.clear();
+        files.set('/workspace/small.png', '');
+        files.set('/workspace/large.png', '');
+    });
+
+    test('rewrites every candidate and keeps the descriptors', async () => {
+        const { srcset } = await rewriteSrcset('small.png 480w, large.png 1080w');
+        assert.strictEqual(srcset, 'file:///workspace/small.png 480w, file:///workspace/large.png 1080w');
+    });
+
+    test('leaves data: URLs with commas whole', async () => {
+        const { srcset } = await rewriteSrcset('data:image/png;base64,iVBORw0,KGgo 1x, large.png 2x');
+        assert.strictEqual(srcset, 'data:image/png;base64,iVBORw0,KGgo 1x, file:///workspace/large.png 2x');
+    });
+
+    test('ends a candidate without descriptors at its trailing commas', async () => {
+        const { srcset } = await rewriteSrcset('small.png,, large.png,');
+        assert.strictEqual(srcset, 'file:///workspace/small.png,, file:///workspace/large.png,');
+    });
+
+    test('leaves remote candidates alone and reports missing files', async () => {
+        const { srcset, missing } = await rewriteSrcset('https://example.com/a.png 1x, gone.png 2x');
+        assert.strictEqual(srcset, 'https://example.com/a.png 1x, file:///workspace/gone.png 2x');
+        assert.deepStrictEqual(missing, ['gone.png']);
+    });
+});
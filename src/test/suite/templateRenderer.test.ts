@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TemplateRenderer } from '../../templateRenderer';
+import { diagnostics, files } from '../vscodeStub';
+
+suite('TemplateRenderer', () => {
+    const documentUri = vscode.Uri.file('/workspace/index.html');
+    let templates: TemplateRenderer;
+
+    setup(() => {
+        files.clear();
+        diagnostics.clear();
+        templates = new TemplateRenderer();
+    });
+
+    teardown(() => templates.dispose());
+
+    test('leaves documents without templates as they are', async () => {
+        const source = '<p>Plain</p>\n<p>{ not a tag }</p>';
+        assert.deepStrictEqual(await templates.render(source, documentUri), { html: source, partials: [], lines: undefined });
+    });
+
+    test('maps the lines of included partials to their include', async () => {
+        files.set('/workspace/partials/header.html', '<header>\n  <h1>Site</h1>\n</header>');
+        const source = '<body>\n<!--#include file="partials/header.html" -->\n<p>Text</p>\n</body>';
+        const result = await templates.render(source, documentUri);
+        assert.strictEqual(result.html, '<body>\n<header>\n  <h1>Site</h1>\n</header>\n<p>Text</p>\n</body>');
+        assert.deepStrictEqual(result.lines, [0, 1, 1, 1, 2, 3]);
+        assert.ok(result.partials.some(uri => uri.path === '/workspace/partials/header.html'));
+    });
+
+    test('expands nested includes and variables from the data file', async () => {
+        files.set('/workspace/.antigravity/data.json', JSON.stringify({ site: { title: 'Tom & Jerry' } }));
+        files.set('/workspace/partials/nav.html', '<nav>{% include "/partials/link.html" %}</nav>');
+        files.set('/workspace/partials/link.html', '<a href="/">{{ site.title }}</a>');
+        const result = await templates.render('<title>{{ site.title | safe }}</title>\n{% include "partials/nav.html" %}\n{{ unknown }}', documentUri);
+        assert.strictEqual(result.html, '<title>Tom & Jerry</title>\n<nav><a href="/">Tom &amp; Jerry</a></nav>\n{{ unknown }}');
+        assert.deepStrictEqual(result.lines, [0, 1, 2]);
+    });
+
+    test('reports missing and circular includes on their line', async () => {
+        files.set('/workspace/loop.html', '<!--#include file="loop.html" -->');
+        await templates.render('<p>\n<!--#include file="missing.html" -->\n<!--#include file="loop.html" --></p>', documentUri);
+        assert.deepStrictEqual(diagnostics.get(documentUri.toString())?.map(d => [d.range.start.line, d.message]),
+            [[1, 'Included file not found: missing.html']]);
+        assert.deepStrictEqual(diagnostics.get(vscode.Uri.file('/workspace/loop.html').toString())?.map(d => [d.range.start.line, d.message]),
+            [[0, 'Circular include: loop.html']]);
+    });
+});
@@ -0,0 +1,187 @@
+import * as path from 'path';
+
+/**
+ * The parts of the `vscode` API the units under test use, for running them in plain
+ * Node.js (see runTest). Files live in memory: tests put them into `files`, keyed by path,
+ * and the workspace folder is `/workspace`.
+ */
+
+export const files = new Map<string, string>();
+
+export class Uri {
+    private constructor(
+        public readonly scheme: string,
+        public readonly authority: string,
+        public readonly path: string,
+        public readonly query: string,
+        public readonly fragment: string
+    ) { }
+
+    public static file(fsPath: string): Uri {
+        return new Uri('file', '', fsPath, '', '');
+    }
+
+    public static parse(value: string): Uri {
+        const match = /^([a-z][a-z\d+.-]*):(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/i.exec(value);
+        if (!match) {
+            throw new Error(`Invalid URI: ${value}`);
+        }
+        return new Uri(match[1].toLowerCase(), match[2] ?? '', decodeURIComponent(match[3]), match[4] ?? '', match[5] ?? '');
+    }
+
+    public static joinPath(base: Uri, ...segments: string[]): Uri {
+        return base.with({ path: path.posix.join(base.path, ...segments) });
+    }
+
+    public get fsPath(): string {
+        return this.path;
+    }
+
+    public with(change: { scheme?: string; authority?: string; path?: string; query?: string; fragment?: string }): Uri {
+        return new Uri(change.scheme ?? this.scheme, change.authority ?? this.authority, change.path ?? this.path,
+            change.query ?? this.query, change.fragment ?? this.fragment);
+    }
+
+    public toString(skipEncoding: boolean = false): string {
+        const encodedPath = skipEncoding ? this.path : this.path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+        return `${this.scheme}://${this.authority}${encodedPath}${this.query ? `?${this.query}` : ''}${this.fragment ? `#${this.fragment}` : ''}`;
+    }
+}
+
+export class Position {
+    constructor(public readonly line: number, public readonly character: number) { }
+
+    public translate(lineDelta: number = 0, characterDelta: number = 0): Position {
+        return new Position(this.line + lineDelta, this.character + characterDelta);
+    }
+
+    public isEqual(other: Position): boolean {
+        return this.line === other.line && this.character === other.character;
+    }
+}
+
+export class Range {
+    public readonly start: Position;
+    public readonly end: Position;
+
+    constructor(start: Position | number, end: Position | number, endLine?: number, endCharacter?: number) {
+        if (typeof start === 'number') {
+            this.start = new Position(start, end as number);
+            this.end = new Position(endLine!, endCharacter!);
+        } else {
+            this.start = start;
+            this.end = end as Position;
+        }
+    }
+
+    public isEqual(other: Range): boolean {
+        return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+    }
+}
+
+export enum DiagnosticSeverity { Error = 0, Warning = 1, Information = 2, Hint = 3 }
+
+export class Diagnostic {
+    public source?: string;
+    public code?: string;
+
+    constructor(public range: Range, public message: string, public severity: DiagnosticSeverity = DiagnosticSeverity.Error) { }
+}
+
+export enum FileType { Unknown = 0, File = 1, Directory = 2 }
+
+export class Disposable {
+    constructor(private readonly _callOnDispose: () => void) { }
+
+    public dispose() {
+        this._callOnDispose();
+    }
+}
+
+type Listener<T> = (value: T) => void;
+
+export class EventEmitter<T> {
+    private readonly _listeners = new Set<Listener<T>>();
+
+    public readonly event = (listener: Listener<T>, thisArg?: unknown, disposables?: Disposable[]): Disposable => {
+        const bound: Listener<T> = value => listener.call(thisArg, value);
+        this._listeners.add(bound);
+        const disposable = new Disposable(() => this._listeners.delete(bound));
+        disposables?.push(disposable);
+        return disposable;
+    };
+
+    public fire(value: T) {
+        this._listeners.forEach(listener => listener(value));
+    }
+
+    public dispose() {
+        this._listeners.clear();
+    }
+}
+
+// Diagnostics published by any collection, by URI
+export const diagnostics = new Map<string, Diagnostic[]>();
+
+export const languages = {
+    createDiagnosticCollection() {
+        const own = new Set<string>();
+        return {
+            set(uri: Uri, entries: Diagnostic[]) {
+                own.add(uri.toString());
+                diagnostics.set(uri.toString(), entries);
+            },
+            delete(uri: Uri) {
+                own.delete(uri.toString());
+                diagnostics.delete(uri.toString());
+            },
+            clear() {
+                own.forEach(key => diagnostics.delete(key));
+                own.clear();
+            },
+            forEach(callback: (uri: Uri) => void) {
+                own.forEach(key => callback(Uri.parse(key)));
+            },
+            dispose() {
+                this.clear();
+            }
+        };
+    }
+};
+
+function stat(uri: Uri) {
+    const content = files.get(uri.path);
+    if (content !== undefined) {
+        return { type: FileType.File, ctime: 0, mtime: 0, size: content.length };
+    }
+    if ([...files.keys()].some(file => file.startsWith(uri.path.replace(/\/?$/, '/')))) {
+        return { type: FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+    }
+    throw new Error(`File not found: ${uri.path}`);
+}
+
+const noEvent = () => new Disposable(() => { });
+const workspaceFolder = { uri: Uri.file('/workspace'), name: 'workspace', index: 0 };
+
+export const workspace = {
+    workspaceFolders: [workspaceFolder],
+    textDocuments: [],
+    fs: {
+        stat: async (uri: Uri) => stat(uri),
+        readFile: async (uri: Uri) => {
+            stat(uri);
+            return Buffer.from(files.get(uri.path) ?? '', 'utf-8');
+        }
+    },
+    getWorkspaceFolder(uri: Uri) {
+        return uri.path.startsWith(`${workspaceFolder.uri.path}/`) ? workspaceFolder : undefined;
+    },
+    getConfiguration() {
+        return { get: <T>(_section: string, defaultValue?: T) => defaultValue };
+    },
+    createFileSystemWatcher() {
+        return { onDidChange: noEvent, onDidCreate: noEvent, onDidDelete: noEvent, dispose() { } };
+    },
+    onDidChangeConfiguration: noEvent,
+    onDidChangeTextDocument: noEvent
+};